@@ -7,7 +7,36 @@
 
 /* eslint-disable @typescript-eslint/ban-types */
 
-type ExtensionPreferences = {}
+type ExtensionPreferences = {
+  /** Notebook Directory - Root folder of your zk notebook (the one containing .zk) */
+  "notebookDir": string,
+  /** Other Notebooks - Additional notebooks as Name=path, separated by commas, e.g. Work=~/work/notes, Personal=~/notes */
+  "otherNotebooks"?: string,
+  /** zk Binary - Path to the zk executable, see `which zk` */
+  "zkBin": string,
+  /** Inbox Directory - Notebook-relative folder new notes go to by default */
+  "inboxDir": string,
+  /** Archive Directory - Notebook-relative folder archived notes are moved to */
+  "archiveDir": string,
+  /** Default Sort - Order of note lists */
+  "defaultSort": "modified" | "created" | "title" | "path" | "word-count",
+  /** Ranking - Bring the notes you open most often and most recently to the top, and list them under Recently Opened. Turn off for plain Default Sort order */
+  "rankByFrecency": boolean,
+  /** Editor - How notes are opened */
+  "editor": "default" | "terminal" | "app" | "vscode" | "obsidian" | "custom",
+  /** Editor App - Application used by the Editor App profile */
+  "editorApp"?: import("@raycast/api").Application,
+  /** Terminal App - Terminal used by the Terminal + $EDITOR profile (Terminal, iTerm, Ghostty, kitty, WezTerm, Alacritty...) */
+  "terminalApp"?: import("@raycast/api").Application,
+  /** Terminal Editor - Editor command used when $EDITOR is not set in your login shell */
+  "terminalEditor": string,
+  /** Custom Editor Command - Shell command for the Custom Command profile, with {path}, {line} and {dir} placeholders */
+  "customEditorCommand"?: string,
+  /** Journal Directory - Notebook-relative directory of daily notes */
+  "journalDirectory": string,
+  /** Journal File Name Format - Date format of daily note file names (YYYY, MM, DD, MMMM, dddd...), may contain / for subfolders */
+  "journalDateFormat": string
+}
 
 /** Preferences accessible in all the extension's commands */
 declare type Preferences = ExtensionPreferences
@@ -16,7 +45,36 @@ declare namespace Preferences {
   /** Preferences accessible in the `search` command */
   export type Search = ExtensionPreferences & {}
   /** Preferences accessible in the `new-note` command */
-  export type NewNote = ExtensionPreferences & {}
+  export type NewNote = ExtensionPreferences & {
+  /** Tags - Convert tags to lowercase before creating the note */
+  "lowercaseTags": boolean,
+  /** Pre-fill Body - Text the body field is filled with when the form opens */
+  "bodySource": "none" | "selection" | "clipboard" | "selection-or-clipboard"
+}
+  /** Preferences accessible in the `quick-capture` command */
+  export type QuickCapture = ExtensionPreferences & {
+  /** Editor - Open the note in the editor after capturing it */
+  "openEditor": boolean
+}
+  /** Preferences accessible in the `open-daily-note` command */
+  export type OpenDailyNote = ExtensionPreferences & {}
+  /** Preferences accessible in the `append-to-daily` command */
+  export type AppendToDaily = ExtensionPreferences & {
+  /** Heading - Heading the entries are added under (created if missing) */
+  "heading": string
+}
+  /** Preferences accessible in the `daily-notes` command */
+  export type DailyNotes = ExtensionPreferences & {}
+  /** Preferences accessible in the `browse-tags` command */
+  export type BrowseTags = ExtensionPreferences & {}
+  /** Preferences accessible in the `insert-link` command */
+  export type InsertLink = ExtensionPreferences & {}
+  /** Preferences accessible in the `notebook-health` command */
+  export type NotebookHealth = ExtensionPreferences & {}
+  /** Preferences accessible in the `process-inbox` command */
+  export type ProcessInbox = ExtensionPreferences & {}
+  /** Preferences accessible in the `restore-deleted` command */
+  export type RestoreDeleted = ExtensionPreferences & {}
 }
 
 declare namespace Arguments {
@@ -24,5 +82,31 @@ declare namespace Arguments {
   export type Search = {}
   /** Arguments passed to the `new-note` command */
   export type NewNote = {}
+  /** Arguments passed to the `quick-capture` command */
+  export type QuickCapture = {
+  /** Title */
+  "title": string,
+  /** Text */
+  "text": string
+}
+  /** Arguments passed to the `open-daily-note` command */
+  export type OpenDailyNote = {}
+  /** Arguments passed to the `append-to-daily` command */
+  export type AppendToDaily = {
+  /** Text */
+  "text": string
+}
+  /** Arguments passed to the `daily-notes` command */
+  export type DailyNotes = {}
+  /** Arguments passed to the `browse-tags` command */
+  export type BrowseTags = {}
+  /** Arguments passed to the `insert-link` command */
+  export type InsertLink = {}
+  /** Arguments passed to the `notebook-health` command */
+  export type NotebookHealth = {}
+  /** Arguments passed to the `process-inbox` command */
+  export type ProcessInbox = {}
+  /** Arguments passed to the `restore-deleted` command */
+  export type RestoreDeleted = {}
 }
 
@@ -0,0 +1,24 @@
+import { LaunchProps, getPreferenceValues, showHUD } from "@raycast/api";
+import { appendToJournal } from "./lib/journal";
+import { assertSetup, handleSetupError } from "./lib/setup";
+
+export default async function AppendToDaily(props: LaunchProps<{ arguments: Arguments.AppendToDaily }>) {
+  const { heading } = getPreferenceValues<Preferences.AppendToDaily>();
+  const text = props.arguments.text.trim();
+
+  if (!text) {
+    await showHUD("Nothing to append");
+    return;
+  }
+
+  try {
+    assertSetup();
+    const { created } = await appendToJournal(text, heading || "## Log");
+    await showHUD(created ? "Created today's note and added entry" : "Added to today's note");
+  } catch (error: any) {
+    if (await handleSetupError(error)) {
+      return;
+    }
+    await showHUD(`Could not append to today's note: ${error.message}`);
+  }
+}
@@ -0,0 +1,176 @@
+import { useState, useMemo } from "react";
+import { List, ActionPanel, Action, Icon } from "@raycast/api";
+import { useCachedState } from "@raycast/utils";
+import { buildTagTree, groupTagTree, hasTag, TagNode, TagSort } from "./lib/tags";
+import { ZK_NOTEBOOK_DIR } from "./lib/zk";
+import { ALL_NOTEBOOKS, listNotebooks, selectedNotebookDirs } from "./lib/notebooks";
+import { useNoteIndex } from "./hooks/use-note-index";
+import { useLinkCounts } from "./hooks/use-link-counts";
+import { useNoteContent } from "./hooks/use-note-content";
+import { NoteListItem } from "./components/note-list-item";
+import { withSetupCheck } from "./components/setup-check";
+
+export default withSetupCheck(BrowseTags);
+
+const TAG_SORTS: Array<{ sort: TagSort; title: string; icon: Icon }> = [
+  { sort: "count", title: "Most Used", icon: Icon.BarChart },
+  { sort: "name", title: "Name", icon: Icon.Text },
+];
+
+/** The search bar dropdown picks a notebook and a sort order at once */
+function accessoryValue(notebook: string, sort: TagSort): string {
+  return JSON.stringify([notebook, sort]);
+}
+
+function BrowseTags() {
+  const [sort, setSort] = useCachedState<TagSort>("browse-tags-sort", "count");
+  const notebooks = useMemo(listNotebooks, []);
+  const [notebook, setNotebook] = useCachedState("browse-tags-notebook", ZK_NOTEBOOK_DIR);
+  // Ignore a remembered notebook that has been removed from the preferences
+  const selectedNotebook =
+    notebook === ALL_NOTEBOOKS || notebooks.some((item) => item.dir === notebook) ? notebook : notebooks[0].dir;
+  const notebookDirs = useMemo(() => selectedNotebookDirs(selectedNotebook), [selectedNotebook]);
+  const index = useNoteIndex(notebookDirs);
+
+  const groups = useMemo(() => groupTagTree(buildTagTree(index.notes || []), sort), [index.notes, sort]);
+
+  const handleAccessoryChange = (value: string) => {
+    const [newNotebook, newSort] = JSON.parse(value) as [string, TagSort];
+    setNotebook(newNotebook);
+    setSort(newSort);
+  };
+
+  return (
+    <List
+      isLoading={index.isLoading}
+      searchBarPlaceholder="Filter tags..."
+      searchBarAccessory={
+        <List.Dropdown
+          tooltip={notebooks.length > 1 ? "Notebook and Sort" : "Sort Tags"}
+          value={accessoryValue(selectedNotebook, sort)}
+          onChange={handleAccessoryChange}
+        >
+          {notebooks.length > 1
+            ? [...notebooks, { dir: ALL_NOTEBOOKS, name: "All Notebooks" }].map((item) => (
+                <List.Dropdown.Section key={item.dir} title={item.name}>
+                  {TAG_SORTS.map(({ sort: value, title, icon }) => (
+                    <List.Dropdown.Item
+                      key={value}
+                      title={`${item.name} · ${title}`}
+                      value={accessoryValue(item.dir, value)}
+                      icon={icon}
+                    />
+                  ))}
+                </List.Dropdown.Section>
+              ))
+            : TAG_SORTS.map(({ sort: value, title, icon }) => (
+                <List.Dropdown.Item
+                  key={value}
+                  title={title}
+                  value={accessoryValue(selectedNotebook, value)}
+                  icon={icon}
+                />
+              ))}
+        </List.Dropdown>
+      }
+    >
+      {groups.length === 0 && !index.isLoading ? (
+        <List.EmptyView icon={Icon.Tag} title="No tags found" description="None of your notes are tagged yet" />
+      ) : (
+        groups.map(({ parent, tags }) => (
+          <List.Section
+            key={parent?.name ?? `tags:${tags[0].name}`}
+            title={parent ? `#${parent.name}` : undefined}
+            subtitle={parent ? `${parent.totalCount} ${parent.totalCount === 1 ? "note" : "notes"}` : undefined}
+          >
+            {tags.map((tag) => (
+              <TagListItem key={tag.name} tag={tag} parent={parent} notebookDirs={notebookDirs} />
+            ))}
+          </List.Section>
+        ))
+      )}
+    </List>
+  );
+}
+
+function TagListItem({ tag, parent, notebookDirs }: { tag: TagNode; parent?: TagNode; notebookDirs: string[] }) {
+  const accessories: List.Item.Accessory[] = [];
+  if (tag.children.length > 0) {
+    accessories.push({
+      icon: Icon.Tag,
+      text: String(tag.children.length),
+      tooltip: `${tag.children.length} nested ${tag.children.length === 1 ? "tag" : "tags"}`,
+    });
+  }
+  accessories.push({
+    text: `${tag.totalCount} ${tag.totalCount === 1 ? "note" : "notes"}`,
+    tooltip:
+      tag.totalCount === tag.noteCount
+        ? undefined
+        : `${tag.noteCount} tagged #${tag.name}, ${tag.totalCount} including nested tags`,
+  });
+
+  // Nested tags are named from their section's tag, e.g. `alpha/notes` under #project
+  const title = parent && tag !== parent ? tag.name.slice(parent.name.length + 1) : tag.name;
+
+  return (
+    <List.Item
+      icon={tag.depth === 0 ? Icon.Tag : Icon.ChevronRight}
+      title={title}
+      subtitle={tag === parent ? "Including nested tags" : undefined}
+      keywords={[tag.name, ...tag.name.split("/")]}
+      accessories={accessories}
+      actions={
+        <ActionPanel>
+          <Action.Push
+            icon={Icon.List}
+            title="Show Notes"
+            target={<TagNotes tag={tag.name} notebookDirs={notebookDirs} />}
+          />
+          <Action.CopyToClipboard
+            icon={Icon.Clipboard}
+            title="Copy Tag"
+            content={`#${tag.name}`}
+            shortcut={{ modifiers: ["cmd"], key: "c" }}
+          />
+        </ActionPanel>
+      }
+    />
+  );
+}
+
+/**
+ * Notes tagged with a tag or one of its nested tags
+ */
+function TagNotes({ tag, notebookDirs }: { tag: string; notebookDirs: string[] }) {
+  const [isShowingDetail, setIsShowingDetail] = useCachedState("search-show-detail", false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const index = useNoteIndex(notebookDirs);
+
+  const notes = useMemo(() => index.notes?.filter((note) => hasTag(note, tag)), [index.notes, tag]);
+  const links = useLinkCounts(notes, selectedId, isShowingDetail);
+  const contents = useNoteContent(notes, selectedId, isShowingDetail);
+
+  return (
+    <List
+      isLoading={index.isLoading}
+      navigationTitle={`#${tag}`}
+      searchBarPlaceholder={`Filter notes tagged #${tag}...`}
+      onSelectionChange={setSelectedId}
+      isShowingDetail={isShowingDetail && !!notes?.length}
+    >
+      {notes?.map((note) => (
+        <NoteListItem
+          key={note.id}
+          note={note}
+          isShowingDetail={isShowingDetail}
+          onToggleDetail={() => setIsShowingDetail(!isShowingDetail)}
+          onReload={index.revalidate}
+          linkCounts={links.countsFor(note)}
+          isLoadingLinks={links.isLoading}
+          content={contents.contentFor(note)}
+        />
+      ))}
+    </List>
+  );
+}
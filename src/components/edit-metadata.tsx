@@ -0,0 +1,354 @@
+import { useMemo, useState } from "react";
+import { Action, ActionPanel, Detail, Form, Icon, showToast, Toast, useNavigation } from "@raycast/api";
+import { usePromise } from "@raycast/utils";
+import { getNoteContent, openNote, ZKNote } from "../lib/zk";
+import { updateFileAtomic } from "../lib/files";
+import {
+  FrontmatterEntry,
+  FrontmatterError,
+  frontmatterList,
+  parseFrontmatter,
+  scalarType,
+  updateFrontmatter,
+  yamlScalar,
+} from "../lib/frontmatter";
+import { loadNoteIndex } from "../lib/note-index";
+import { countTags, normalizeTags, toYamlList } from "../lib/tags";
+
+/** Fields with their own form controls, in the order they are shown */
+const KNOWN_FIELDS = ["title", "tags", "aliases", "status"];
+/** Known fields holding lists */
+const LIST_FIELDS = ["tags", "aliases"];
+
+const FIELD_KEY = /^[^\s#:-][^:]*$/;
+
+function splitList(text: string): string[] {
+  return text
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Items of a list field as the form shows them. Tags written as a plain string (`tags: a b`)
+ * are split the way zk reads them, other lists by commas.
+ */
+function fieldList(content: string, entry: FrontmatterEntry | undefined): string[] {
+  if (!entry) {
+    return [];
+  }
+  if (entry.key === "tags") {
+    return frontmatterList(content, "tags");
+  }
+  return Array.isArray(entry.value) ? entry.value.map((item) => item.trim()).filter(Boolean) : splitList(entry.value);
+}
+
+/**
+ * Multi-line values other than lists cannot be edited in a text field, they are shown and kept as written
+ */
+function isReadOnly(entry: FrontmatterEntry | undefined): boolean {
+  return !!entry?.multiline && !Array.isArray(entry.value) && !LIST_FIELDS.includes(entry.key);
+}
+
+/**
+ * YAML for an edited scalar. Booleans, numbers and dates written without quotes stay unquoted
+ * while the new text is still of the same type, so that they are not turned into strings.
+ */
+function scalarValue(text: string, entry: FrontmatterEntry | undefined): string {
+  const type = entry && !entry.quoted && !Array.isArray(entry.value) ? scalarType(entry.value) : undefined;
+  return type && scalarType(text) === type ? text : yamlScalar(text);
+}
+
+interface NewField {
+  id: number;
+}
+
+type MetadataValues = Record<string, string | string[]>;
+
+/**
+ * Changes to write for the submitted values, only for the fields that differ from the note
+ */
+function frontmatterChanges(
+  content: string,
+  entries: FrontmatterEntry[],
+  values: MetadataValues,
+  removed: Set<string>,
+  newFields: NewField[]
+): Record<string, string | null> {
+  const changes: Record<string, string | null> = {};
+  const byKey = new Map(entries.map((entry) => [entry.key, entry]));
+
+  for (const key of removed) {
+    changes[key] = null;
+  }
+
+  const fields = [...KNOWN_FIELDS, ...entries.map((entry) => entry.key).filter((key) => !KNOWN_FIELDS.includes(key))];
+  for (const key of fields) {
+    const entry = byKey.get(key);
+    if (removed.has(key) || isReadOnly(entry)) {
+      continue;
+    }
+
+    const value = values[`field:${key}`];
+    let written: string | null;
+    let changed: boolean;
+    if (LIST_FIELDS.includes(key) || Array.isArray(entry?.value)) {
+      const before = fieldList(content, entry);
+      const items =
+        key === "tags"
+          ? normalizeTags([...(value as string[]), (values.newTags as string) || ""])
+          : splitList((value as string) || "");
+      written = items.length > 0 ? toYamlList(items) : null;
+      // Compared the way the form reads them, so that an untouched list is not rewritten
+      changed = items.join("\n") !== (key === "tags" ? normalizeTags(before) : before).join("\n");
+    } else {
+      const text = ((value as string) || "").trim();
+      written = text ? scalarValue(text, entry) : null;
+      changed = text !== (entry?.value || "");
+    }
+
+    // Clearing a field the note does not have is not a change
+    if (changed && (written !== null || entry)) {
+      changes[key] = written;
+    }
+  }
+
+  for (const { id } of newFields) {
+    const key = ((values[`new-key:${id}`] as string) || "").trim();
+    const text = ((values[`new-value:${id}`] as string) || "").trim();
+    if (!key) {
+      continue;
+    }
+    if (!FIELD_KEY.test(key)) {
+      throw new Error(`"${key}" is not a valid field name`);
+    }
+    if (byKey.has(key) && !removed.has(key)) {
+      throw new Error(`The note already has a "${key}" field`);
+    }
+    changes[key] = yamlScalar(text);
+  }
+
+  return changes;
+}
+
+function ReadOnlyField({ entry }: { entry: FrontmatterEntry }) {
+  return <Form.Description title={entry.key} text={`${entry.value}\n(spans several lines, kept as written)`} />;
+}
+
+/**
+ * Why the frontmatter of a note cannot be edited, with a way to fix it in the editor
+ */
+function MetadataError({ note, error, onRetry }: { note: ZKNote; error: Error; onRetry: () => void }) {
+  const line = error instanceof FrontmatterError ? error.line : undefined;
+
+  return (
+    <Detail
+      navigationTitle="Edit Metadata"
+      markdown={`# Cannot edit metadata\n\n\`${note.path}\`\n\n${error.message}\n\nThe note was left unchanged.`}
+      actions={
+        <ActionPanel>
+          <Action
+            icon={Icon.ArrowRight}
+            title={line ? `Open at Line ${line}` : "Open in Editor"}
+            onAction={() => openNote(note.absPath, line)}
+          />
+          <Action
+            icon={Icon.ArrowClockwise}
+            title="Try Again"
+            onAction={onRetry}
+            shortcut={{ modifiers: ["cmd"], key: "r" }}
+          />
+        </ActionPanel>
+      }
+    />
+  );
+}
+
+/**
+ * Form editing a note's frontmatter. Only changed fields are rewritten, the others and the body
+ * are kept as written; malformed frontmatter is reported instead of being replaced.
+ */
+export function EditMetadataForm({ note, onSaved }: { note: ZKNote; onSaved?: () => void }) {
+  const { pop } = useNavigation();
+  const [removed, setRemoved] = useState<Set<string>>(new Set());
+  const [newFields, setNewFields] = useState<NewField[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data, isLoading, error, revalidate } = usePromise(
+    async (path: string) => {
+      const content = await getNoteContent(path);
+      return { content, entries: parseFrontmatter(content) };
+    },
+    [note.absPath],
+    {
+      onError: async (error) => {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Cannot edit metadata",
+          message: error.message,
+        });
+      },
+    }
+  );
+
+  const existingTags = useMemo(() => countTags(loadNoteIndex(note.notebookDir)?.notes || []), [note.notebookDir]);
+
+  if (error) {
+    return <MetadataError note={note} error={error} onRetry={revalidate} />;
+  }
+
+  const entries = (data?.entries || []).filter((entry) => !removed.has(entry.key));
+  const byKey = new Map(entries.map((entry) => [entry.key, entry]));
+  const otherEntries = entries.filter((entry) => !KNOWN_FIELDS.includes(entry.key));
+
+  // The note's own tags are offered even when the index does not know them yet
+  const noteTags = data ? fieldList(data.content, byKey.get("tags")) : [];
+  const known = new Set(existingTags.map((tag) => tag.name));
+  const tagItems = [
+    ...noteTags.filter((tag) => !known.has(tag)).map((name) => ({ name, noteCount: 1 })),
+    ...existingTags,
+  ];
+
+  const handleSubmit = async (values: MetadataValues) => {
+    if (!data) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const changes = frontmatterChanges(data.content, data.entries, values, removed, newFields);
+      if (Object.keys(changes).length === 0) {
+        await showToast({ style: Toast.Style.Success, title: "No changes" });
+        pop();
+        return;
+      }
+
+      await updateFileAtomic(note.absPath, (content) => {
+        if (content !== data.content) {
+          throw new Error("The note changed since the form was opened, reload it and try again");
+        }
+        return updateFrontmatter(content, changes);
+      });
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Metadata saved",
+        message: Object.keys(changes).join(", "),
+      });
+      onSaved?.();
+      pop();
+    } catch (error: any) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Could not save metadata",
+        message: error.message,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const scalar = (key: string) => {
+    const entry = byKey.get(key);
+    if (data && (LIST_FIELDS.includes(key) || Array.isArray(entry?.value))) {
+      return fieldList(data.content, entry).join(", ");
+    }
+    return (entry?.value as string) || "";
+  };
+
+  return (
+    <Form
+      navigationTitle={`Edit Metadata: ${note.title}`}
+      isLoading={isLoading || isSaving}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm icon={Icon.SaveDocument} title="Save Metadata" onSubmit={handleSubmit} />
+          <Action
+            icon={Icon.Plus}
+            title="Add Field"
+            onAction={() => setNewFields((fields) => [...fields, { id: fields.length }])}
+            shortcut={{ modifiers: ["cmd"], key: "n" }}
+          />
+          {otherEntries.length > 0 && (
+            <ActionPanel.Submenu
+              icon={Icon.Minus}
+              title="Remove Field…"
+              shortcut={{ modifiers: ["ctrl"], key: "x" }}
+            >
+              {otherEntries.map((entry) => (
+                <Action
+                  key={entry.key}
+                  title={entry.key}
+                  onAction={() => setRemoved((keys) => new Set([...keys, entry.key]))}
+                />
+              ))}
+            </ActionPanel.Submenu>
+          )}
+          <Action
+            icon={Icon.ArrowRight}
+            title="Open in Editor"
+            onAction={() => openNote(note.absPath)}
+            shortcut={{ modifiers: ["cmd"], key: "return" }}
+          />
+        </ActionPanel>
+      }
+    >
+      {data && (
+        <>
+          <Form.Description title="Note" text={note.path} />
+          {isReadOnly(byKey.get("title")) ? (
+            <ReadOnlyField entry={byKey.get("title")!} />
+          ) : (
+            <Form.TextField id="field:title" title="Title" defaultValue={scalar("title")} autoFocus />
+          )}
+          <Form.TagPicker id="field:tags" title="Tags" defaultValue={noteTags}>
+            {tagItems.map((tag) => (
+              <Form.TagPicker.Item
+                key={tag.name}
+                value={tag.name}
+                title={`${tag.name} (${tag.noteCount})`}
+                icon={Icon.Tag}
+              />
+            ))}
+          </Form.TagPicker>
+          <Form.TextField id="newTags" title="New Tags" placeholder="tag1, tag2 (optional)" />
+          <Form.TextField
+            id="field:aliases"
+            title="Aliases"
+            placeholder="alias1, alias2"
+            defaultValue={scalar("aliases")}
+            info="Comma separated"
+          />
+          {isReadOnly(byKey.get("status")) ? (
+            <ReadOnlyField entry={byKey.get("status")!} />
+          ) : (
+            <Form.TextField
+              id="field:status"
+              title="Status"
+              placeholder="draft, done…"
+              defaultValue={scalar("status")}
+            />
+          )}
+          {(otherEntries.length > 0 || newFields.length > 0) && <Form.Separator />}
+          {otherEntries.map((entry) =>
+            isReadOnly(entry) ? (
+              <ReadOnlyField key={entry.key} entry={entry} />
+            ) : (
+              <Form.TextField
+                key={entry.key}
+                id={`field:${entry.key}`}
+                title={entry.key}
+                defaultValue={scalar(entry.key)}
+                info={Array.isArray(entry.value) ? "Comma separated" : undefined}
+              />
+            )
+          )}
+          {newFields.map(({ id }) => [
+            <Form.TextField key={`new-key:${id}`} id={`new-key:${id}`} title="New Field" placeholder="Name" />,
+            <Form.TextField key={`new-value:${id}`} id={`new-value:${id}`} title="Value" placeholder="Value" />,
+          ])}
+          <Form.Description text="Clearing a field removes it. Other fields and the note's text are kept as written." />
+        </>
+      )}
+    </Form>
+  );
+}
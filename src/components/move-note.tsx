@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { Action, ActionPanel, Form, Icon, showToast, Toast, useNavigation } from "@raycast/api";
+import { usePromise } from "@raycast/utils";
+import { dirname, relative } from "path";
+import { ZKNote } from "../lib/zk";
+import { listMoveDestinations, MoveDestination } from "../lib/config";
+import { planMove } from "../lib/rename";
+import { RenamePreview, undoRenameWithToast } from "./rename-note";
+
+/**
+ * Dropdown items for the destinations of a move
+ */
+export function DestinationItems({ destinations }: { destinations: MoveDestination[] }) {
+  const groups = destinations.filter((destination) => destination.group);
+  const folders = destinations.filter((destination) => !destination.group);
+
+  return (
+    <>
+      {groups.length > 0 && (
+        <Form.Dropdown.Section title="Groups">
+          {groups.map(({ path, group }) => (
+            <Form.Dropdown.Item key={path} value={path} title={`${group} (${path})`} icon={Icon.Tag} />
+          ))}
+        </Form.Dropdown.Section>
+      )}
+      <Form.Dropdown.Section title="Folders">
+        {folders.map(({ path }) => (
+          <Form.Dropdown.Item key={path} value={path} title={path || "Notebook Root"} icon={Icon.Folder} />
+        ))}
+      </Form.Dropdown.Section>
+    </>
+  );
+}
+
+interface MoveValues {
+  directory: string;
+  newDirectory: string;
+}
+
+/**
+ * Form choosing the folder a note moves to
+ */
+export function MoveNoteForm({ note, onMoved }: { note: ZKNote; onMoved?: () => void }) {
+  const { push, pop } = useNavigation();
+  const currentDirectory = relative(note.notebookDir, dirname(note.absPath));
+  const [directory, setDirectory] = useState(currentDirectory);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const { data: destinations, isLoading: isLoadingDestinations } = usePromise(
+    listMoveDestinations,
+    [note.notebookDir],
+    {
+      onError: async (error) => {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Error reading notebook folders",
+          message: error.message,
+        });
+      },
+    }
+  );
+
+  const handleSubmit = async (values: MoveValues) => {
+    setIsLoading(true);
+    try {
+      const plan = await planMove(note, values.newDirectory.trim() || values.directory);
+      push(
+        <RenamePreview
+          plan={plan}
+          onApplied={() => {
+            pop();
+            onMoved?.();
+          }}
+          onUndone={onMoved}
+        />
+      );
+    } catch (error: any) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Cannot move note",
+        message: error.message,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Form
+      navigationTitle={`Move ${note.title}`}
+      isLoading={isLoading || isLoadingDestinations}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm icon={Icon.Eye} title="Preview Move" onSubmit={handleSubmit} />
+          <Action
+            icon={Icon.Undo}
+            title="Undo Last Rename"
+            onAction={() => undoRenameWithToast(onMoved)}
+            shortcut={{ modifiers: ["cmd"], key: "z" }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.Description title="Current Folder" text={currentDirectory || "Notebook Root"} />
+      <Form.Dropdown id="directory" title="Move To" value={directory} onChange={setDirectory} autoFocus>
+        <DestinationItems destinations={destinations || [{ path: currentDirectory }]} />
+      </Form.Dropdown>
+      <Form.TextField
+        id="newDirectory"
+        title="New Folder"
+        placeholder="projects/alpha (optional)"
+        info="Notebook-relative folder to create, used instead of the folder above"
+      />
+      <Form.Description text={`Relative links in ${note.filename} and links to it in other notes are updated.`} />
+    </Form>
+  );
+}
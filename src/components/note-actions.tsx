@@ -0,0 +1,206 @@
+import { ReactNode } from "react";
+import { ActionPanel, Action, Icon, showToast, showHUD, Toast, Clipboard, closeMainWindow } from "@raycast/api";
+import { openNote, ZKNote } from "../lib/zk";
+import { LINK_STYLES, LinkStyle, noteLink } from "../lib/links";
+import { MatchSnippet } from "../lib/snippets";
+import { NotePreview } from "./note-preview";
+import { NoteLinks } from "./note-links";
+import { RenameNoteForm } from "./rename-note";
+import { MoveNoteForm } from "./move-note";
+import { EditMetadataForm } from "./edit-metadata";
+import { archiveNoteWithToast, trashNoteWithToast } from "./remove-note";
+
+/**
+ * Open a note in the editor, at a line if given, reporting progress with toasts
+ */
+export async function openNoteWithToast(note: ZKNote, line?: number): Promise<void> {
+  try {
+    await showToast({
+      style: Toast.Style.Animated,
+      title: "Opening note...",
+    });
+    await openNote(note.absPath, line);
+    await showToast({
+      style: Toast.Style.Success,
+      title: "Note opened",
+    });
+  } catch (error: any) {
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "Error opening note",
+      message: error.message,
+    });
+  }
+}
+
+/**
+ * Copy a link to a note to the clipboard
+ */
+export async function copyNoteLink(note: ZKNote, style: LinkStyle = "notebook"): Promise<void> {
+  try {
+    const link = await noteLink(note, style);
+    await Clipboard.copy(link);
+    await showToast({
+      style: Toast.Style.Success,
+      title: "Link copied",
+      message: link,
+    });
+  } catch (error: any) {
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "Error copying link",
+      message: error.message,
+    });
+  }
+}
+
+/**
+ * Paste a link to a note into the frontmost app
+ */
+export async function pasteNoteLink(note: ZKNote, style: LinkStyle = "notebook"): Promise<void> {
+  try {
+    const link = await noteLink(note, style);
+    await closeMainWindow();
+    await Clipboard.paste(link);
+  } catch (error: any) {
+    await showHUD(`Could not paste link: ${error.message}`);
+  }
+}
+
+export interface NoteActionsProps {
+  note: ZKNote;
+  isShowingDetail: boolean;
+  onToggleDetail: () => void;
+  /** Rebuild the note index */
+  onReload?: () => void;
+  /** Where a full-text search matched the note; the editor opens at the first match */
+  matches?: MatchSnippet[];
+  /** Actions of the list the note is shown in */
+  listActions?: ReactNode;
+}
+
+/**
+ * Actions shared by every list of notes
+ */
+export function NoteActions({
+  note,
+  isShowingDetail,
+  onToggleDetail,
+  onReload,
+  matches = [],
+  listActions,
+}: NoteActionsProps) {
+  const matchLines = matches.filter((match) => match.line !== undefined);
+
+  return (
+    <ActionPanel>
+      <Action
+        icon={isShowingDetail ? Icon.EyeDisabled : Icon.Eye}
+        title={isShowingDetail ? "Hide Details" : "Show Details"}
+        onAction={onToggleDetail}
+      />
+      <Action
+        icon={Icon.ArrowRight}
+        title={matchLines.length > 0 ? `Open at Line ${matchLines[0].line}` : "Open in Editor"}
+        onAction={() => openNoteWithToast(note, matchLines[0]?.line)}
+        shortcut={{ modifiers: ["cmd"], key: "return" }}
+      />
+      {matchLines.length > 1 && (
+        <ActionPanel.Submenu
+          icon={Icon.TextCursor}
+          title="Open at Match…"
+          shortcut={{ modifiers: ["cmd", "shift"], key: "return" }}
+        >
+          {matchLines.map((match) => (
+            <Action
+              key={match.line}
+              title={`Line ${match.line}: ${match.text}`}
+              onAction={() => openNoteWithToast(note, match.line)}
+            />
+          ))}
+        </ActionPanel.Submenu>
+      )}
+      <Action.Push
+        icon={Icon.Maximize}
+        title="Preview Note"
+        target={<NotePreview note={note} />}
+        shortcut={{ modifiers: ["cmd"], key: "y" }}
+      />
+      <Action.Push
+        icon={Icon.Network}
+        title="Browse Links"
+        target={<NoteLinks note={note} />}
+        shortcut={{ modifiers: ["cmd"], key: "g" }}
+      />
+      <Action
+        icon={Icon.Link}
+        title="Copy Link"
+        onAction={() => copyNoteLink(note)}
+        shortcut={{ modifiers: ["cmd"], key: "l" }}
+      />
+      <Action
+        icon={Icon.Link}
+        title="Paste Link"
+        onAction={() => pasteNoteLink(note)}
+        shortcut={{ modifiers: ["cmd", "shift"], key: "l" }}
+      />
+      <ActionPanel.Submenu icon={Icon.Link} title="Copy Link As…">
+        {LINK_STYLES.map(({ style, title }) => (
+          <Action key={style} title={title} onAction={() => copyNoteLink(note, style)} />
+        ))}
+      </ActionPanel.Submenu>
+      <Action.CopyToClipboard
+        icon={Icon.Clipboard}
+        title="Copy Path"
+        content={note.path}
+        shortcut={{ modifiers: ["cmd"], key: "c" }}
+      />
+      <Action.CopyToClipboard
+        icon={Icon.Clipboard}
+        title="Copy Title"
+        content={note.title}
+        shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+      />
+      <Action.Push
+        icon={Icon.Pencil}
+        title="Rename Note"
+        target={<RenameNoteForm note={note} onRenamed={onReload} />}
+        shortcut={{ modifiers: ["cmd", "shift"], key: "r" }}
+      />
+      <Action.Push
+        icon={Icon.Tag}
+        title="Edit Metadata"
+        target={<EditMetadataForm note={note} onSaved={onReload} />}
+        shortcut={{ modifiers: ["cmd"], key: "e" }}
+      />
+      <Action.Push
+        icon={Icon.Folder}
+        title="Move To…"
+        target={<MoveNoteForm note={note} onMoved={onReload} />}
+        shortcut={{ modifiers: ["cmd", "shift"], key: "m" }}
+      />
+      <Action
+        icon={Icon.Box}
+        title="Archive Note"
+        onAction={() => archiveNoteWithToast(note, onReload)}
+        shortcut={{ modifiers: ["cmd", "shift"], key: "a" }}
+      />
+      <Action
+        icon={Icon.Trash}
+        title="Move to Trash"
+        style={Action.Style.Destructive}
+        onAction={() => trashNoteWithToast(note, onReload)}
+        shortcut={{ modifiers: ["ctrl"], key: "x" }}
+      />
+      {listActions && <ActionPanel.Section>{listActions}</ActionPanel.Section>}
+      {onReload && (
+        <Action
+          icon={Icon.ArrowClockwise}
+          title="Rebuild Note Index"
+          onAction={onReload}
+          shortcut={{ modifiers: ["cmd"], key: "r" }}
+        />
+      )}
+    </ActionPanel>
+  );
+}
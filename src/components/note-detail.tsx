@@ -0,0 +1,121 @@
+import { List, Icon } from "@raycast/api";
+import { ZKNote, LinkCounts } from "../lib/zk";
+import { highlightMarkdown, MatchSnippet } from "../lib/snippets";
+import { findFrontmatter } from "../lib/frontmatter";
+
+/**
+ * Tag and modification date accessories for a note list item
+ */
+export function noteAccessories(note: ZKNote): List.Item.Accessory[] {
+  const accessories: List.Item.Accessory[] = [];
+
+  if (note.tags.length > 0) {
+    const shown = note.tags.slice(0, 2);
+    const hidden = note.tags.length - shown.length;
+    accessories.push({
+      tag: hidden > 0 ? `#${shown.join(" #")} +${hidden}` : `#${shown.join(" #")}`,
+      tooltip: note.tags.map((tag) => `#${tag}`).join(" "),
+    });
+  }
+
+  if (note.modified) {
+    accessories.push({
+      date: note.modified,
+      tooltip: `Modified ${note.modified.toLocaleString()}`,
+    });
+  }
+
+  return accessories;
+}
+
+/**
+ * Format a frontmatter value for the metadata panel
+ */
+function formatMetadataValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.map((item) => formatMetadataValue(item)).join(", ");
+  }
+  if (value && typeof value === "object") {
+    return JSON.stringify(value);
+  }
+  return String(value ?? "");
+}
+
+/**
+ * Search matches with their hits in bold, shown above the note
+ */
+function matchesMarkdown(matches: MatchSnippet[]): string {
+  const items = matches.map((match) => `- ${match.line ? `\`L${match.line}\` ` : ""}${highlightMarkdown(match)}`);
+  return `**Matches**\n\n${items.join("\n")}`;
+}
+
+/**
+ * Body of a note file like zk's: without the frontmatter and title heading
+ */
+function contentBody(content: string): string {
+  const lines = content.split("\n");
+  const block = findFrontmatter(lines);
+  return (block ? lines.slice(block.end + 1).join("\n") : content).replace(/^\s*#\s+.*\n/, "");
+}
+
+export function NoteDetail({
+  note,
+  linkCounts,
+  isLoadingLinks,
+  notebookName,
+  matches = [],
+  content,
+}: {
+  note: ZKNote;
+  linkCounts?: LinkCounts;
+  isLoadingLinks: boolean;
+  notebookName?: string;
+  matches?: MatchSnippet[];
+  /** Content read from the file, for notes from the index which do not carry it */
+  content?: string;
+}) {
+  // zk's body excludes the frontmatter and title heading
+  const text = note.body || note.rawContent || (content !== undefined ? contentBody(content) : note.lead);
+  const body = `# ${note.title}\n\n${text}`;
+  const markdown = matches.length > 0 ? `${matchesMarkdown(matches)}\n\n---\n\n${body}` : body;
+  const frontmatter = Object.entries(note.metadata).filter(([key]) => key !== "title" && key !== "tags");
+
+  return (
+    <List.Item.Detail
+      isLoading={isLoadingLinks && !linkCounts}
+      markdown={markdown}
+      metadata={
+        <List.Item.Detail.Metadata>
+          {note.tags.length > 0 ? (
+            <List.Item.Detail.Metadata.TagList title="Tags">
+              {note.tags.map((tag) => (
+                <List.Item.Detail.Metadata.TagList.Item key={tag} text={`#${tag}`} />
+              ))}
+            </List.Item.Detail.Metadata.TagList>
+          ) : (
+            <List.Item.Detail.Metadata.Label title="Tags" text="None" />
+          )}
+          <List.Item.Detail.Metadata.Label title="Created" text={note.created?.toLocaleString() || "Unknown"} />
+          <List.Item.Detail.Metadata.Label title="Modified" text={note.modified?.toLocaleString() || "Unknown"} />
+          <List.Item.Detail.Metadata.Label title="Words" text={String(note.wordCount)} />
+          <List.Item.Detail.Metadata.Label
+            title="Backlinks"
+            icon={Icon.ArrowLeft}
+            text={linkCounts ? String(linkCounts.backlinks) : "…"}
+          />
+          <List.Item.Detail.Metadata.Label
+            title="Outgoing Links"
+            icon={Icon.ArrowRight}
+            text={linkCounts ? String(linkCounts.outgoingLinks) : "…"}
+          />
+          <List.Item.Detail.Metadata.Label title="Path" text={note.path} />
+          {notebookName && <List.Item.Detail.Metadata.Label title="Notebook" text={notebookName} icon={Icon.Book} />}
+          {frontmatter.length > 0 && <List.Item.Detail.Metadata.Separator />}
+          {frontmatter.map(([key, value]) => (
+            <List.Item.Detail.Metadata.Label key={key} title={key} text={formatMetadataValue(value)} />
+          ))}
+        </List.Item.Detail.Metadata>
+      }
+    />
+  );
+}
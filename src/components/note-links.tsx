@@ -0,0 +1,135 @@
+import { List, ActionPanel, Action, Icon, showToast, Toast, useNavigation } from "@raycast/api";
+import { usePromise } from "@raycast/utils";
+import { getNoteLinks, ZKNote } from "../lib/zk";
+import { noteAccessories } from "./note-detail";
+import { copyNoteLink, openNoteWithToast } from "./note-actions";
+import { NotePreview } from "./note-preview";
+
+/** Notes shown in the navigation title before older ones are elided */
+const BREADCRUMB_LENGTH = 3;
+
+/**
+ * Navigation title showing the path walked through the graph, e.g. `… › A › B › C`
+ */
+function breadcrumb(trail: ZKNote[], note: ZKNote): string {
+  const titles = [...trail, note].map((item) => item.title);
+  const shown = titles.slice(-BREADCRUMB_LENGTH);
+  return `${titles.length > shown.length ? "… › " : ""}${shown.join(" › ")}`;
+}
+
+/**
+ * Backlinks, outgoing links and related notes of a note.
+ * Choosing a linked note pushes its own link view, `trail` holds the notes visited before.
+ */
+export function NoteLinks({ note, trail = [] }: { note: ZKNote; trail?: ZKNote[] }) {
+  const { data, isLoading } = usePromise(getNoteLinks, [note.path, note.notebookDir], {
+    onError: async (error) => {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Error loading links",
+        message: error.message,
+      });
+    },
+  });
+
+  const sections = [
+    { title: "Backlinks", icon: Icon.ArrowLeft, notes: data?.backlinks },
+    { title: "Outgoing Links", icon: Icon.ArrowRight, notes: data?.outgoing },
+    { title: "Related", icon: Icon.Shuffle, notes: data?.related },
+  ];
+  const linkCount = sections.reduce((count, section) => count + (section.notes?.length || 0), 0);
+
+  return (
+    <List isLoading={isLoading} navigationTitle={breadcrumb(trail, note)} searchBarPlaceholder="Filter linked notes...">
+      <List.Section title="Current Note">
+        <List.Item
+          icon={Icon.Document}
+          title={note.title}
+          subtitle={!isLoading && linkCount === 0 ? "No linked notes" : note.path}
+          accessories={[
+            { icon: Icon.ArrowLeft, text: data ? String(data.backlinks.length) : "…", tooltip: "Backlinks" },
+            { icon: Icon.ArrowRight, text: data ? String(data.outgoing.length) : "…", tooltip: "Outgoing links" },
+          ]}
+          actions={<LinkedNoteActions note={note} trail={trail} isCurrent />}
+        />
+      </List.Section>
+      {sections.map((section) => (
+        <List.Section
+          key={section.title}
+          title={section.title}
+          subtitle={section.notes ? String(section.notes.length) : undefined}
+        >
+          {section.notes?.map((linked) => (
+            <List.Item
+              key={`${section.title}-${linked.id}`}
+              icon={section.icon}
+              title={linked.title}
+              subtitle={linked.path}
+              keywords={[linked.path, ...linked.tags]}
+              accessories={noteAccessories(linked)}
+              actions={<LinkedNoteActions note={linked} trail={[...trail, note]} />}
+            />
+          ))}
+        </List.Section>
+      ))}
+    </List>
+  );
+}
+
+function LinkedNoteActions({ note, trail, isCurrent }: { note: ZKNote; trail: ZKNote[]; isCurrent?: boolean }) {
+  const { pop } = useNavigation();
+
+  // Going back n notes pops their link views off the navigation stack
+  const goBack = (steps: number) => {
+    for (let step = 0; step < steps; step++) {
+      pop();
+    }
+  };
+  const visited = isCurrent ? trail : trail.slice(0, -1);
+
+  return (
+    <ActionPanel>
+      {!isCurrent && (
+        <Action.Push icon={Icon.Link} title="Browse Links" target={<NoteLinks note={note} trail={trail} />} />
+      )}
+      <Action
+        icon={Icon.ArrowRight}
+        title="Open in Editor"
+        onAction={() => openNoteWithToast(note)}
+        shortcut={{ modifiers: ["cmd"], key: "return" }}
+      />
+      <Action.Push
+        icon={Icon.Maximize}
+        title="Preview Note"
+        target={<NotePreview note={note} />}
+        shortcut={{ modifiers: ["cmd"], key: "y" }}
+      />
+      <Action
+        icon={Icon.Link}
+        title="Copy Link"
+        onAction={() => copyNoteLink(note)}
+        shortcut={{ modifiers: ["cmd"], key: "l" }}
+      />
+      {visited.length > 0 && (
+        <ActionPanel.Section title="Breadcrumb">
+          <Action
+            icon={Icon.ArrowLeftCircle}
+            title={`Back to ${visited[visited.length - 1].title}`}
+            onAction={() => goBack(1)}
+            shortcut={{ modifiers: ["cmd"], key: "[" }}
+          />
+          {visited.length > 1 && (
+            <ActionPanel.Submenu icon={Icon.List} title="Go Back To…">
+              {visited
+                .map((item, index) => ({ item, steps: visited.length - index }))
+                .reverse()
+                .map(({ item, steps }) => (
+                  <Action key={`${steps}-${item.id}`} title={item.title} onAction={() => goBack(steps)} />
+                ))}
+            </ActionPanel.Submenu>
+          )}
+        </ActionPanel.Section>
+      )}
+    </ActionPanel>
+  );
+}
@@ -0,0 +1,78 @@
+import { ReactNode } from "react";
+import { List, Icon } from "@raycast/api";
+import { ZKNote, LinkCounts } from "../lib/zk";
+import { NoteDetail, noteAccessories } from "./note-detail";
+import { NoteActions } from "./note-actions";
+import { MatchSnippet } from "../lib/snippets";
+
+export interface NoteListItemProps {
+  note: ZKNote;
+  isShowingDetail: boolean;
+  onToggleDetail: () => void;
+  onReload?: () => void;
+  /** Link counts, only known for the selected note */
+  linkCounts?: LinkCounts;
+  isLoadingLinks: boolean;
+  /** Name of the note's notebook, shown when listing several notebooks */
+  notebookName?: string;
+  /** Where a full-text search matched the note */
+  matches?: MatchSnippet[];
+  /** Actions of the list the note is shown in */
+  listActions?: ReactNode;
+  /** Content read from the file, only for the selected note when it came from the index */
+  content?: string;
+}
+
+/**
+ * A note row with metadata accessories, a detail pane and the shared note actions
+ */
+export function NoteListItem({
+  note,
+  isShowingDetail,
+  onToggleDetail,
+  onReload,
+  linkCounts,
+  isLoadingLinks,
+  notebookName,
+  matches = [],
+  listActions,
+  content,
+}: NoteListItemProps) {
+  const accessories = noteAccessories(note);
+  if (notebookName) {
+    accessories.unshift({ tag: notebookName, icon: Icon.Book, tooltip: `Notebook: ${notebookName}` });
+  }
+  if (matches[0]?.line) {
+    accessories.unshift({ text: `L${matches[0].line}`, tooltip: `First match on line ${matches[0].line}` });
+  }
+
+  return (
+    <List.Item
+      id={note.id}
+      icon={Icon.Document}
+      title={note.title}
+      subtitle={isShowingDetail ? undefined : matches[0]?.text || note.path}
+      accessories={isShowingDetail ? undefined : accessories}
+      detail={
+        <NoteDetail
+          note={note}
+          linkCounts={linkCounts}
+          isLoadingLinks={isLoadingLinks}
+          notebookName={notebookName}
+          matches={matches}
+          content={content}
+        />
+      }
+      actions={
+        <NoteActions
+          note={note}
+          isShowingDetail={isShowingDetail}
+          onToggleDetail={onToggleDetail}
+          onReload={onReload}
+          matches={matches}
+          listActions={listActions}
+        />
+      }
+    />
+  );
+}
@@ -0,0 +1,131 @@
+import { useEffect } from "react";
+import { Detail, ActionPanel, Action, Icon, Color, Keyboard, showToast, Toast, useNavigation } from "@raycast/api";
+import { usePromise } from "@raycast/utils";
+import { openNote, getNoteContent, zkFor, ZKNote } from "../lib/zk";
+import { recordVisit } from "../lib/frecency";
+import { loadNoteIndex } from "../lib/note-index";
+import { renderNotePreview } from "../lib/preview";
+
+/**
+ * Notes links of a note may point to: the whole cached index, or the notes zk reports as linked
+ */
+async function linkCandidates(note: ZKNote): Promise<ZKNote[]> {
+  const index = loadNoteIndex(note.notebookDir);
+  if (index) {
+    return index.notes;
+  }
+  return zkFor(note.notebookDir)
+    .list({ linkedBy: [note.path] })
+    .catch(() => []);
+}
+
+export function NotePreview({ note }: { note: ZKNote }) {
+  const { pop } = useNavigation();
+  const { data, isLoading, error, revalidate } = usePromise(
+    async (path: string) => {
+      const [content, notes] = await Promise.all([getNoteContent(path), linkCandidates(note)]);
+      return renderNotePreview(content, note, notes);
+    },
+    [note.absPath],
+    {
+      onError: async (error) => {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Error reading note",
+          message: error.message,
+        });
+      },
+    }
+  );
+
+  useEffect(() => {
+    recordVisit(note.absPath).catch(() => undefined);
+  }, [note.absPath]);
+
+  const markdown = error
+    ? `# Could not read note\n\n\`${note.path}\`\n\n${error.message}`
+    : data
+    ? `# ${note.title}\n\n${data.markdown.replace(/^\s*#\s+.*\n/, "")}`
+    : "";
+
+  return (
+    <Detail
+      isLoading={isLoading}
+      markdown={markdown}
+      navigationTitle={note.title}
+      metadata={
+        data && (
+          <Detail.Metadata>
+            <Detail.Metadata.Label title="Path" text={note.path} />
+            {data.frontmatter.map(({ key, value }) =>
+              Array.isArray(value) ? (
+                <Detail.Metadata.TagList key={key} title={key}>
+                  {value.map((item) => (
+                    <Detail.Metadata.TagList.Item key={item} text={key === "tags" ? `#${item}` : item} />
+                  ))}
+                </Detail.Metadata.TagList>
+              ) : (
+                <Detail.Metadata.Label key={key} title={key} text={value} />
+              )
+            )}
+            <Detail.Metadata.Separator />
+            <Detail.Metadata.Label title="Linked Notes" text={String(data.linkedNotes.length)} icon={Icon.Link} />
+            {data.brokenLinks.length > 0 && (
+              <Detail.Metadata.Label
+                title="Broken Links"
+                text={data.brokenLinks.join(", ")}
+                icon={{ source: Icon.Warning, tintColor: Color.Orange }}
+              />
+            )}
+          </Detail.Metadata>
+        )
+      }
+      actions={
+        <ActionPanel>
+          <Action
+            icon={Icon.ArrowRight}
+            title="Open Note"
+            onAction={async () => {
+              await openNote(note.absPath);
+              pop();
+            }}
+          />
+          <Action
+            icon={Icon.ArrowLeft}
+            title="Back"
+            onAction={pop}
+            shortcut={{ modifiers: ["cmd"], key: "b" }}
+          />
+          {error && (
+            <Action
+              icon={Icon.ArrowClockwise}
+              title="Try Again"
+              onAction={revalidate}
+              shortcut={{ modifiers: ["cmd"], key: "r" }}
+            />
+          )}
+          <Action.CopyToClipboard
+            icon={Icon.Clipboard}
+            title="Copy Path"
+            content={note.path}
+          />
+          {data && data.linkedNotes.length > 0 && (
+            <ActionPanel.Section title="Linked Notes">
+              {data.linkedNotes.map((linked, index) => (
+                <Action.Push
+                  key={linked.id}
+                  icon={Icon.Document}
+                  title={linked.title}
+                  target={<NotePreview note={linked} />}
+                  shortcut={
+                    index < 9 ? { modifiers: ["cmd"], key: String(index + 1) as Keyboard.KeyEquivalent } : undefined
+                  }
+                />
+              ))}
+            </ActionPanel.Section>
+          )}
+        </ActionPanel>
+      }
+    />
+  );
+}
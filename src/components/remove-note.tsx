@@ -0,0 +1,111 @@
+import { Alert, confirmAlert, Icon, showToast, Toast } from "@raycast/api";
+import { relative } from "path";
+import { ARCHIVE_DIR, ZKNote } from "../lib/zk";
+import { archiveNote, findBacklinks, restoreNote, trashNote } from "../lib/archive";
+import { undoRenameWithToast } from "./rename-note";
+
+/**
+ * Describe the notes linking to a note, e.g. "3 notes link to it: A, B, C"
+ */
+function backlinkSummary(backlinks: ZKNote[]): string {
+  if (backlinks.length === 0) {
+    return "No note links to it.";
+  }
+  const titles = backlinks.slice(0, 3).map((note) => note.title);
+  const more = backlinks.length > titles.length ? `, and ${backlinks.length - titles.length} more` : "";
+  const count = backlinks.length === 1 ? "1 note links" : `${backlinks.length} notes link`;
+  return `${count} to it: ${titles.join(", ")}${more}.`;
+}
+
+/**
+ * Ask before archiving or trashing a note, showing how many notes link to it
+ */
+async function confirmRemoval(note: ZKNote, action: "archive" | "trash"): Promise<boolean> {
+  let backlinks: ZKNote[] = [];
+  try {
+    backlinks = await findBacklinks(note);
+  } catch {
+    // Not knowing the backlinks should not prevent removing the note
+  }
+
+  const consequence =
+    action === "archive"
+      ? `It moves to ${ARCHIVE_DIR}/ with the archived tag; links to it are updated.`
+      : `It can be restored with Restore Recently Deleted; links to it will be broken until then.`;
+
+  return confirmAlert({
+    icon: action === "archive" ? Icon.Box : Icon.Trash,
+    title: action === "archive" ? `Archive “${note.title}”?` : `Move “${note.title}” to Trash?`,
+    message: `${backlinkSummary(backlinks)}\n\n${consequence}`,
+    primaryAction: {
+      title: action === "archive" ? "Archive" : "Move to Trash",
+      style: action === "archive" ? Alert.ActionStyle.Default : Alert.ActionStyle.Destructive,
+    },
+  });
+}
+
+/**
+ * Archive a note after confirmation; returns whether it was archived
+ */
+export async function archiveNoteWithToast(note: ZKNote, onDone?: () => void): Promise<boolean> {
+  if (!(await confirmRemoval(note, "archive"))) {
+    return false;
+  }
+
+  const toast = await showToast({ style: Toast.Style.Animated, title: "Archiving note..." });
+  try {
+    const path = await archiveNote(note);
+    toast.style = Toast.Style.Success;
+    toast.title = "Note archived";
+    toast.message = relative(note.notebookDir, path);
+    toast.primaryAction = {
+      title: "Undo",
+      shortcut: { modifiers: ["cmd"], key: "z" },
+      onAction: () => undoRenameWithToast(onDone),
+    };
+    onDone?.();
+    return true;
+  } catch (error: any) {
+    toast.style = Toast.Style.Failure;
+    toast.title = "Could not archive note";
+    toast.message = error.message;
+    return false;
+  }
+}
+
+/**
+ * Move a note to the notebook's trash after confirmation; returns whether it was trashed
+ */
+export async function trashNoteWithToast(note: ZKNote, onDone?: () => void): Promise<boolean> {
+  if (!(await confirmRemoval(note, "trash"))) {
+    return false;
+  }
+
+  const toast = await showToast({ style: Toast.Style.Animated, title: "Moving note to trash..." });
+  try {
+    const entry = await trashNote(note);
+    toast.style = Toast.Style.Success;
+    toast.title = "Note moved to trash";
+    toast.message = note.title;
+    toast.primaryAction = {
+      title: "Undo",
+      shortcut: { modifiers: ["cmd"], key: "z" },
+      onAction: async () => {
+        try {
+          await restoreNote(note.notebookDir, entry);
+          await showToast({ style: Toast.Style.Success, title: "Note restored", message: note.path });
+          onDone?.();
+        } catch (error: any) {
+          await showToast({ style: Toast.Style.Failure, title: "Could not restore note", message: error.message });
+        }
+      },
+    };
+    onDone?.();
+    return true;
+  } catch (error: any) {
+    toast.style = Toast.Style.Failure;
+    toast.title = "Could not move note to trash";
+    toast.message = error.message;
+    return false;
+  }
+}
@@ -0,0 +1,220 @@
+import { useState } from "react";
+import { Action, ActionPanel, Detail, Form, Icon, showToast, Toast, useNavigation } from "@raycast/api";
+import { basename, dirname, relative } from "path";
+import { ZKNote } from "../lib/zk";
+import { applyRename, filenameForTitle, planRename, RenamePlan, undoLastRename } from "../lib/rename";
+
+/**
+ * Undo the last rename, reporting the outcome with a toast
+ */
+export async function undoRenameWithToast(onDone?: () => void): Promise<void> {
+  try {
+    const record = await undoLastRename();
+    await showToast({
+      style: Toast.Style.Success,
+      title: "Rename undone",
+      message: record.oldPath.split("/").pop(),
+    });
+    onDone?.();
+  } catch (error: any) {
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "Could not undo rename",
+      message: error.message,
+    });
+  }
+}
+
+interface RenameValues {
+  title: string;
+  renameFile: boolean;
+  filename: string;
+}
+
+/**
+ * Form choosing the new title and file name of a note
+ */
+export function RenameNoteForm({ note, onRenamed }: { note: ZKNote; onRenamed?: () => void }) {
+  const { push, pop } = useNavigation();
+  const [title, setTitle] = useState(note.title);
+  // Follow the title only if the file name was derived from it in the first place
+  const [renameFile, setRenameFile] = useState(note.filename === filenameForTitle(note.title));
+  const [filename, setFilename] = useState(note.filename);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleTitleChange = (value: string) => {
+    setTitle(value);
+    if (renameFile) {
+      setFilename(filenameForTitle(value));
+    }
+  };
+
+  const handleSubmit = async (values: RenameValues) => {
+    setIsLoading(true);
+    try {
+      const plan = await planRename(note, {
+        title: values.title,
+        filename: values.renameFile ? values.filename : undefined,
+      });
+      push(
+        <RenamePreview
+          plan={plan}
+          onApplied={() => {
+            pop();
+            onRenamed?.();
+          }}
+          onUndone={onRenamed}
+        />
+      );
+    } catch (error: any) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Cannot rename note",
+        message: error.message,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Form
+      navigationTitle={`Rename ${note.title}`}
+      isLoading={isLoading}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm icon={Icon.Eye} title="Preview Rename" onSubmit={handleSubmit} />
+          <Action
+            icon={Icon.Undo}
+            title="Undo Last Rename"
+            onAction={() => undoRenameWithToast(onRenamed)}
+            shortcut={{ modifiers: ["cmd"], key: "z" }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField id="title" title="Title" value={title} onChange={handleTitleChange} autoFocus />
+      <Form.Checkbox
+        id="renameFile"
+        label="Rename the file"
+        value={renameFile}
+        onChange={(value) => {
+          setRenameFile(value);
+          if (value) {
+            setFilename(filenameForTitle(title));
+          }
+        }}
+      />
+      {renameFile && (
+        <Form.TextField
+          id="filename"
+          title="File Name"
+          value={filename}
+          onChange={setFilename}
+          info="The note stays in the same folder"
+        />
+      )}
+      <Form.Description text={`Links to ${note.path} in other notes are updated to match.`} />
+    </Form>
+  );
+}
+
+/**
+ * Whether a plan only moves the note to another folder
+ */
+function isMove(plan: RenamePlan): boolean {
+  return (
+    plan.title === plan.note.title &&
+    basename(plan.newPath) === basename(plan.oldPath) &&
+    dirname(plan.newPath) !== dirname(plan.oldPath)
+  );
+}
+
+/**
+ * Markdown diff of the files a rename will change
+ */
+function planMarkdown(plan: RenamePlan): string {
+  const { note } = plan;
+  const sections = [`# ${isMove(plan) ? "Move" : "Rename"} “${note.title}”`];
+
+  if (plan.title !== note.title) {
+    sections.push(`**Title:** ${note.title} → ${plan.title}`);
+  }
+  if (basename(plan.newPath) !== basename(plan.oldPath)) {
+    sections.push(`**File:** \`${note.filename}\` → \`${basename(plan.newPath)}\``);
+  }
+  if (dirname(plan.newPath) !== dirname(plan.oldPath)) {
+    const folder = (path: string) => relative(note.notebookDir, dirname(path)) || "/";
+    sections.push(`**Folder:** \`${folder(plan.oldPath)}\` → \`${folder(plan.newPath)}\``);
+  }
+
+  const linkFiles = plan.edits.filter((edit) => edit.path !== plan.oldPath).length;
+  sections.push(
+    linkFiles > 0 ? `**Links updated in ${linkFiles} ${linkFiles === 1 ? "note" : "notes"}**` : "No links to update."
+  );
+
+  for (const edit of plan.edits) {
+    const diff = edit.changes.map((change) => `@@ line ${change.line} @@\n- ${change.before}\n+ ${change.after}`);
+    sections.push(`### ${edit.displayPath}\n\n\`\`\`diff\n${diff.join("\n")}\n\`\`\``);
+  }
+
+  return sections.join("\n\n");
+}
+
+/**
+ * Preview of a rename or move, applied only on confirmation
+ */
+export function RenamePreview({
+  plan,
+  onApplied,
+  onUndone,
+}: {
+  plan: RenamePlan;
+  onApplied: () => void;
+  onUndone?: () => void;
+}) {
+  const { pop } = useNavigation();
+  const [isLoading, setIsLoading] = useState(false);
+  const isNoop = plan.edits.length === 0 && plan.newPath === plan.oldPath;
+  const verb = isMove(plan) ? "Move" : "Rename";
+
+  const handleApply = async () => {
+    setIsLoading(true);
+    try {
+      await applyRename(plan);
+      await showToast({
+        style: Toast.Style.Success,
+        title: isMove(plan) ? "Note moved" : "Note renamed",
+        message: isMove(plan) ? relative(plan.note.notebookDir, plan.newPath) : plan.title,
+        primaryAction: {
+          title: "Undo",
+          shortcut: { modifiers: ["cmd"], key: "z" },
+          onAction: () => undoRenameWithToast(onUndone),
+        },
+      });
+      pop();
+      onApplied();
+    } catch (error: any) {
+      setIsLoading(false);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: `${verb} failed, nothing was changed`,
+        message: error.message,
+      });
+    }
+  };
+
+  return (
+    <Detail
+      navigationTitle={`${verb} Preview`}
+      isLoading={isLoading}
+      markdown={isNoop ? "# Nothing to change\n\nThe title, file name and folder are unchanged." : planMarkdown(plan)}
+      actions={
+        <ActionPanel>
+          {!isNoop && <Action icon={Icon.Checkmark} title={`Apply ${verb}`} onAction={handleApply} />}
+          <Action icon={Icon.ArrowLeft} title="Back" onAction={pop} />
+        </ActionPanel>
+      }
+    />
+  );
+}
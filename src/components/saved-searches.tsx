@@ -0,0 +1,108 @@
+import { Action, ActionPanel, Form, Icon, List, showToast, Toast, useNavigation } from "@raycast/api";
+import { deleteSavedSearch, SavedSearch, savedSearchDeeplink, saveSearch } from "../lib/saved-searches";
+
+/**
+ * Form naming the current query before saving it
+ */
+export function SaveSearchForm({ search, onSaved }: { search: Omit<SavedSearch, "name">; onSaved: () => void }) {
+  const { pop } = useNavigation();
+
+  const handleSubmit = async (values: { name: string }) => {
+    try {
+      await saveSearch({ ...search, name: values.name });
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Search saved",
+        message: values.name,
+      });
+      onSaved();
+      pop();
+    } catch (error: any) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Could not save search",
+        message: error.message,
+      });
+    }
+  };
+
+  return (
+    <Form
+      navigationTitle="Save Search"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm icon={Icon.SaveDocument} title="Save Search" onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField id="name" title="Name" defaultValue={search.query} autoFocus />
+      <Form.Description title="Query" text={search.query} />
+      <Form.Description text="A search with the same name is replaced." />
+    </Form>
+  );
+}
+
+/**
+ * A saved search in the empty-query view of the search command
+ */
+export function SavedSearchItem({
+  search,
+  onRun,
+  onChange,
+}: {
+  search: SavedSearch;
+  onRun: (search: SavedSearch) => void;
+  onChange: () => void;
+}) {
+  const deeplink = savedSearchDeeplink(search);
+
+  const handleDelete = async () => {
+    try {
+      await deleteSavedSearch(search.name);
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Saved search deleted",
+        message: search.name,
+      });
+      onChange();
+    } catch (error: any) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Could not delete saved search",
+        message: error.message,
+      });
+    }
+  };
+
+  return (
+    <List.Item
+      id={`saved-search:${search.name}`}
+      icon={Icon.MagnifyingGlass}
+      title={search.name}
+      subtitle={search.query}
+      keywords={[search.query]}
+      actions={
+        <ActionPanel>
+          <Action icon={Icon.MagnifyingGlass} title="Run Search" onAction={() => onRun(search)} />
+          <Action.CreateQuicklink
+            title="Create Quicklink"
+            quicklink={{ name: search.name, link: deeplink }}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "q" }}
+          />
+          <Action.CopyToClipboard
+            title="Copy Deeplink"
+            content={deeplink}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+          />
+          <Action
+            icon={Icon.Trash}
+            title="Delete Saved Search"
+            style={Action.Style.Destructive}
+            onAction={handleDelete}
+            shortcut={{ modifiers: ["ctrl"], key: "x" }}
+          />
+        </ActionPanel>
+      }
+    />
+  );
+}
@@ -0,0 +1,30 @@
+import { ComponentType, useMemo } from "react";
+import { Action, ActionPanel, Detail, Icon, openExtensionPreferences } from "@raycast/api";
+import { checkSetup, SetupProblem } from "../lib/setup";
+
+/**
+ * Screen shown instead of a command when the extension is not set up
+ */
+export function SetupErrorView({ problem }: { problem: SetupProblem }) {
+  return (
+    <Detail
+      navigationTitle={problem.title}
+      markdown={`# ${problem.title}\n\n${problem.description}`}
+      actions={
+        <ActionPanel>
+          <Action title="Open Extension Preferences" icon={Icon.Gear} onAction={openExtensionPreferences} />
+        </ActionPanel>
+      }
+    />
+  );
+}
+
+/**
+ * Wrap a view command so that it only renders once the zk binary and notebook are found
+ */
+export function withSetupCheck<P extends object>(Command: ComponentType<P>) {
+  return function SetupCheck(props: P) {
+    const problem = useMemo(checkSetup, []);
+    return problem ? <SetupErrorView problem={problem} /> : <Command {...props} />;
+  };
+}
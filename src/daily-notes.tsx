@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { List, ActionPanel, Action, Icon, Color, showToast, Toast } from "@raycast/api";
+import { usePromise } from "@raycast/utils";
+import { openNote } from "./lib/zk";
+import { dayKey, ensureJournalNote, journalNotePath, listJournalEntries } from "./lib/journal";
+import { withSetupCheck } from "./components/setup-check";
+
+/** Number of days shown at once */
+const PAGE_DAYS = 14;
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+export default withSetupCheck(DailyNotes);
+
+function DailyNotes() {
+  // Last day of the visible range
+  const [endDate, setEndDate] = useState(() => new Date());
+  const { data: entries, isLoading, revalidate } = usePromise(listJournalEntries, []);
+
+  const today = dayKey(new Date());
+  const days = Array.from({ length: PAGE_DAYS }, (_, index) => addDays(endDate, -index));
+  const rangeTitle = `${days[days.length - 1].toLocaleDateString()} – ${days[0].toLocaleDateString()}`;
+  const entryCount = days.filter((day) => entries?.has(dayKey(day))).length;
+
+  const handleOpen = async (date: Date) => {
+    try {
+      const { path, created } = await ensureJournalNote(date);
+      await openNote(path);
+      await showToast({
+        style: Toast.Style.Success,
+        title: created ? "Journal note created" : "Journal note opened",
+        message: dayKey(date),
+      });
+      if (created) {
+        revalidate();
+      }
+    } catch (error: any) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Error opening journal note",
+        message: error.message,
+      });
+    }
+  };
+
+  const navigation = (
+    <>
+      <Action
+        icon={Icon.ArrowLeft}
+        title="Previous Days"
+        onAction={() => setEndDate(addDays(endDate, -PAGE_DAYS))}
+        shortcut={{ modifiers: ["cmd"], key: "[" }}
+      />
+      <Action
+        icon={Icon.ArrowRight}
+        title="Next Days"
+        onAction={() => setEndDate(addDays(endDate, PAGE_DAYS))}
+        shortcut={{ modifiers: ["cmd"], key: "]" }}
+      />
+      <Action
+        icon={Icon.Calendar}
+        title="Go to Today"
+        onAction={() => setEndDate(new Date())}
+        shortcut={{ modifiers: ["cmd"], key: "t" }}
+      />
+    </>
+  );
+
+  return (
+    <List isLoading={isLoading} searchBarPlaceholder="Filter days...">
+      <List.Section title={rangeTitle} subtitle={`${entryCount} ${entryCount === 1 ? "entry" : "entries"}`}>
+        {days.map((day) => {
+          const key = dayKey(day);
+          const path = entries?.get(key);
+          return (
+            <List.Item
+              key={key}
+              icon={path ? { source: Icon.CheckCircle, tintColor: Color.Green } : Icon.Circle}
+              title={day.toLocaleDateString(undefined, { weekday: "long", month: "long", day: "numeric", year: "numeric" })}
+              subtitle={key === today ? "Today" : undefined}
+              keywords={[key]}
+              accessories={[path ? { text: "Entry" } : { text: "No entry", icon: Icon.Minus }]}
+              actions={
+                <ActionPanel>
+                  <Action
+                    icon={path ? Icon.ArrowRight : Icon.Plus}
+                    title={path ? "Open Journal Note" : "Create Journal Note"}
+                    onAction={() => handleOpen(day)}
+                  />
+                  <ActionPanel.Section>{navigation}</ActionPanel.Section>
+                  <Action.CopyToClipboard
+                    icon={Icon.Clipboard}
+                    title="Copy Path"
+                    content={path || journalNotePath(day)}
+                    shortcut={{ modifiers: ["cmd"], key: "c" }}
+                  />
+                </ActionPanel>
+              }
+            />
+          );
+        })}
+      </List.Section>
+    </List>
+  );
+}
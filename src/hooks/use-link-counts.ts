@@ -0,0 +1,21 @@
+import { usePromise } from "@raycast/utils";
+import { getLinkCounts, ZKNote } from "../lib/zk";
+
+/**
+ * Link counts for the selected note of a list.
+ * They are not part of zk list output, so they are only fetched for one note at a time.
+ */
+export function useLinkCounts(notes: ZKNote[] | undefined, selectedId: string | null, enabled: boolean) {
+  const selectedNote = notes?.find((note) => note.id === selectedId) || notes?.[0];
+
+  const { data, isLoading } = usePromise(
+    async (notePath: string, notebookDir: string) => getLinkCounts(notePath, notebookDir),
+    [selectedNote?.path || "", selectedNote?.notebookDir || ""],
+    { execute: enabled && !!selectedNote }
+  );
+
+  /** Counts for the given note, if it is the selected one and they are up to date */
+  const countsFor = (note: ZKNote) => (note.id === selectedNote?.id && !isLoading ? data : undefined);
+
+  return { countsFor, isLoading };
+}
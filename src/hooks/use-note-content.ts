@@ -0,0 +1,22 @@
+import { usePromise } from "@raycast/utils";
+import { getNoteContent, ZKNote } from "../lib/zk";
+
+/**
+ * Content of the selected note of a list.
+ * Notes from the index are stored without their content, so it is read for one note at a time.
+ */
+export function useNoteContent(notes: ZKNote[] | undefined, selectedId: string | null, enabled: boolean) {
+  const selectedNote = notes?.find((note) => note.id === selectedId) || notes?.[0];
+  const needsContent = !!selectedNote && !selectedNote.body && !selectedNote.rawContent;
+
+  const { data, isLoading } = usePromise(getNoteContent, [selectedNote?.absPath || ""], {
+    execute: enabled && needsContent,
+    // The detail pane falls back to the note's lead
+    onError: () => undefined,
+  });
+
+  /** Content of the given note, if it is the selected one and had to be read */
+  const contentFor = (note: ZKNote) => (note.id === selectedNote?.id && needsContent && !isLoading ? data : undefined);
+
+  return { contentFor };
+}
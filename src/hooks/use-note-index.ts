@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { showToast, Toast } from "@raycast/api";
+import { ZKNote } from "../lib/client";
+import { ZK_NOTEBOOK_DIR } from "../lib/zk";
+import { loadNoteIndex, refreshNoteIndex, sortNotes, NoteIndex } from "../lib/note-index";
+
+/**
+ * Notes of one index, or of several merged in the default sort order
+ */
+function mergeIndexes(indexes: NoteIndex[]): ZKNote[] {
+  const notes = indexes.flatMap((index) => index.notes);
+  return indexes.length > 1 ? sortNotes(notes) : notes;
+}
+
+/**
+ * Notes from the on-disk index of one or more notebooks: cached notes are returned
+ * on first render, then refreshed in the background if a notebook changed.
+ */
+export function useNoteIndex(notebookDirs: string[] = [ZK_NOTEBOOK_DIR]) {
+  const key = notebookDirs.join("\n");
+  // Indexes read from disk, once per set of notebooks, then kept up to date by refresh
+  const cache = useRef<{ key: string; indexes: Array<NoteIndex | null> }>(undefined);
+  const cachedIndexes = () => {
+    if (cache.current?.key !== key) {
+      cache.current = { key, indexes: notebookDirs.map((dir) => loadNoteIndex(dir)) };
+    }
+    return cache.current.indexes;
+  };
+  const cachedNotes = () => {
+    const indexes = cachedIndexes();
+    return indexes.every(Boolean) ? mergeIndexes(indexes as NoteIndex[]) : undefined;
+  };
+
+  const [notes, setNotes] = useState<ZKNote[] | undefined>(cachedNotes);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | undefined>();
+  const mounted = useRef(true);
+
+  const refresh = useCallback(
+    async (force: boolean) => {
+      setIsLoading(true);
+      const cached = cachedIndexes();
+      const results = await Promise.allSettled(
+        notebookDirs.map((notebookDir, i) => refreshNoteIndex({ force, notebookDir, cached: cached[i] }))
+      );
+      const indexes = results.flatMap((result) => (result.status === "fulfilled" ? [result.value] : []));
+      const failure = results.find((result): result is PromiseRejectedResult => result.status === "rejected");
+      if (cache.current?.key === key) {
+        cache.current.indexes = results.map((result, i) => (result.status === "fulfilled" ? result.value : cached[i]));
+      }
+
+      if (mounted.current) {
+        if (indexes.length > 0 || !failure) {
+          setNotes(mergeIndexes(indexes));
+        }
+        setError(failure?.reason);
+        setIsLoading(false);
+      }
+      if (failure) {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Error indexing notes",
+          message: failure.reason?.message,
+        });
+      }
+    },
+    [key]
+  );
+
+  useEffect(() => {
+    mounted.current = true;
+    // Show the cached notes of a newly selected notebook straight away
+    setNotes(cachedNotes());
+    refresh(false);
+    return () => {
+      mounted.current = false;
+    };
+  }, [refresh]);
+
+  /** Rebuild the index, e.g. after changing notes from the extension */
+  const revalidate = useCallback(() => refresh(true), [refresh]);
+
+  return { notes, isLoading, error, revalidate };
+}
@@ -0,0 +1,73 @@
+import { useMemo } from "react";
+import { List, ActionPanel, Action, Icon } from "@raycast/api";
+import { useCachedState } from "@raycast/utils";
+import { ZK_NOTEBOOK_DIR } from "./lib/zk";
+import { LINK_STYLES } from "./lib/links";
+import { listNotebooks } from "./lib/notebooks";
+import { useNoteIndex } from "./hooks/use-note-index";
+import { noteAccessories } from "./components/note-detail";
+import { copyNoteLink, pasteNoteLink } from "./components/note-actions";
+import { withSetupCheck } from "./components/setup-check";
+
+export default withSetupCheck(InsertLink);
+
+function InsertLink() {
+  const notebooks = useMemo(listNotebooks, []);
+  const [notebook, setNotebook] = useCachedState("insert-link-notebook", ZK_NOTEBOOK_DIR);
+  const notebookDir = notebooks.some((item) => item.dir === notebook) ? notebook : notebooks[0].dir;
+  const index = useNoteIndex([notebookDir]);
+
+  return (
+    <List
+      isLoading={index.isLoading}
+      searchBarPlaceholder="Find a note to link..."
+      searchBarAccessory={
+        notebooks.length > 1 ? (
+          <List.Dropdown tooltip="Notebook" value={notebookDir} onChange={setNotebook}>
+            {notebooks.map((item) => (
+              <List.Dropdown.Item key={item.dir} title={item.name} value={item.dir} icon={Icon.Book} />
+            ))}
+          </List.Dropdown>
+        ) : undefined
+      }
+    >
+      {index.notes?.map((note) => (
+        <List.Item
+          key={note.id}
+          icon={Icon.Document}
+          title={note.title}
+          subtitle={note.path}
+          keywords={[note.path, ...note.tags]}
+          accessories={noteAccessories(note)}
+          actions={
+            <ActionPanel>
+              <Action icon={Icon.Link} title="Paste Link" onAction={() => pasteNoteLink(note)} />
+              <Action
+                icon={Icon.Clipboard}
+                title="Copy Link"
+                onAction={() => copyNoteLink(note)}
+                shortcut={{ modifiers: ["cmd"], key: "l" }}
+              />
+              <ActionPanel.Submenu icon={Icon.Link} title="Paste Link As…">
+                {LINK_STYLES.map(({ style, title }) => (
+                  <Action key={style} title={title} onAction={() => pasteNoteLink(note, style)} />
+                ))}
+              </ActionPanel.Submenu>
+              <ActionPanel.Submenu icon={Icon.Clipboard} title="Copy Link As…">
+                {LINK_STYLES.map(({ style, title }) => (
+                  <Action key={style} title={title} onAction={() => copyNoteLink(note, style)} />
+                ))}
+              </ActionPanel.Submenu>
+              <Action
+                icon={Icon.ArrowClockwise}
+                title="Rebuild Note Index"
+                onAction={index.revalidate}
+                shortcut={{ modifiers: ["cmd"], key: "r" }}
+              />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
@@ -0,0 +1,124 @@
+import { mkdir, readFile, rename } from "fs/promises";
+import { existsSync } from "fs";
+import { dirname, join } from "path";
+import { ARCHIVE_DIR, zkFor, ZKNote } from "./zk";
+import { applyRename, planMove, RenamePlan } from "./rename";
+import { frontmatterList, setFrontmatterField } from "./frontmatter";
+import { toYamlList } from "./tags";
+import { writeFileAtomic } from "./files";
+
+/**
+ * Getting rid of notes: archiving moves a note to the archive folder (keeping links
+ * working), trashing moves it to a hidden `.trash` folder of the notebook it can be
+ * restored from.
+ */
+
+export const ARCHIVED_TAG = "archived";
+
+/** Hidden, so that zk does not index trashed notes */
+const TRASH_DIR = ".trash";
+const TRASH_MANIFEST = "manifest.json";
+
+export interface TrashEntry {
+  /** Notebook-relative path the note had */
+  originalPath: string;
+  /** Path inside the trash folder */
+  trashPath: string;
+  title: string;
+  deletedAt: string;
+}
+
+/**
+ * Notes linking to a note, which archiving updates and trashing leaves broken
+ */
+export async function findBacklinks(note: ZKNote): Promise<ZKNote[]> {
+  const notes = await zkFor(note.notebookDir).list({ linkTo: [note.path] });
+  return notes.filter((item) => item.absPath !== note.absPath);
+}
+
+/**
+ * Replace the frontmatter tags of a note. Inline `#tags` of the body are left as they are.
+ */
+export function setTags(content: string, tags: string[]): string {
+  return setFrontmatterField(content, "tags", toYamlList(tags));
+}
+
+/**
+ * Add a tag to the frontmatter tags of a note
+ */
+export function addTag(content: string, tag: string): string {
+  const tags = frontmatterList(content, "tags");
+  return tags.includes(tag) ? content : setTags(content, [...tags, tag]);
+}
+
+/**
+ * Plan archiving a note: moved to the archive folder with the archived tag, links updated
+ */
+export function planArchive(note: ZKNote, archiveDir: string = ARCHIVE_DIR): Promise<RenamePlan> {
+  return planMove(note, archiveDir, (content) => addTag(content, ARCHIVED_TAG));
+}
+
+/**
+ * Archive a note, see planArchive
+ */
+export async function archiveNote(note: ZKNote, archiveDir: string = ARCHIVE_DIR): Promise<string> {
+  const plan = await planArchive(note, archiveDir);
+  await applyRename(plan);
+  return plan.newPath;
+}
+
+function trashDir(notebookDir: string): string {
+  return join(notebookDir, TRASH_DIR);
+}
+
+/**
+ * Notes in the trash of a notebook, most recently deleted first
+ */
+export async function listTrash(notebookDir: string): Promise<TrashEntry[]> {
+  try {
+    const entries = JSON.parse(await readFile(join(trashDir(notebookDir), TRASH_MANIFEST), "utf-8"));
+    return Array.isArray(entries) ? entries : [];
+  } catch {
+    return [];
+  }
+}
+
+async function saveTrash(notebookDir: string, entries: TrashEntry[]): Promise<void> {
+  await mkdir(trashDir(notebookDir), { recursive: true });
+  await writeFileAtomic(join(trashDir(notebookDir), TRASH_MANIFEST), JSON.stringify(entries, null, 2));
+}
+
+/**
+ * Move a note to the notebook's trash
+ */
+export async function trashNote(note: ZKNote): Promise<TrashEntry> {
+  const deletedAt = new Date();
+  // Timestamped so that notes with the same name can be trashed more than once
+  const trashPath = `${deletedAt.getTime()}-${note.path.replace(/\//g, "__")}`;
+  const entry: TrashEntry = { originalPath: note.path, trashPath, title: note.title, deletedAt: deletedAt.toISOString() };
+
+  await mkdir(trashDir(note.notebookDir), { recursive: true });
+  await rename(note.absPath, join(trashDir(note.notebookDir), trashPath));
+  await saveTrash(note.notebookDir, [entry, ...(await listTrash(note.notebookDir))]);
+  return entry;
+}
+
+/**
+ * Put a trashed note back where it was
+ */
+export async function restoreNote(notebookDir: string, entry: TrashEntry): Promise<string> {
+  const target = join(notebookDir, entry.originalPath);
+  if (existsSync(target)) {
+    throw new Error(`${entry.originalPath} already exists`);
+  }
+
+  await mkdir(dirname(target), { recursive: true });
+  await rename(join(trashDir(notebookDir), entry.trashPath), target);
+
+  const entries = await listTrash(notebookDir);
+  await saveTrash(
+    notebookDir,
+    entries.filter((item) => item.trashPath !== entry.trashPath)
+  );
+  return target;
+}
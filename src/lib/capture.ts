@@ -0,0 +1,44 @@
+import { Clipboard, getSelectedText } from "@raycast/api";
+
+export type CaptureSource = "none" | "selection" | "clipboard" | "selection-or-clipboard";
+
+/**
+ * Text selected in the frontmost application, or undefined when nothing is selected
+ */
+export async function readSelectedText(): Promise<string | undefined> {
+  try {
+    const text = await getSelectedText();
+    return text.trim() ? text : undefined;
+  } catch {
+    // getSelectedText throws when there is no selection or no accessibility permission
+    return undefined;
+  }
+}
+
+/**
+ * Text content of the clipboard, or undefined when it holds no text or cannot be read
+ */
+export async function readClipboardText(): Promise<string | undefined> {
+  try {
+    const text = await Clipboard.readText();
+    return text && text.trim() ? text : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read the text to capture from the given source
+ */
+export async function captureText(source: CaptureSource): Promise<string | undefined> {
+  switch (source) {
+    case "selection":
+      return readSelectedText();
+    case "clipboard":
+      return readClipboardText();
+    case "selection-or-clipboard":
+      return (await readSelectedText()) ?? (await readClipboardText());
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,378 @@
+import { execFile } from "child_process";
+import { basename, isAbsolute, join, relative } from "path";
+
+/**
+ * A note as returned by `zk list --format json`
+ */
+export interface ZKNote {
+  /** Absolute path, unique across notebooks */
+  id: string;
+  /** Root directory of the notebook the note belongs to */
+  notebookDir: string;
+  title: string;
+  /** Notebook-relative path */
+  path: string;
+  absPath: string;
+  filename: string;
+  filenameStem: string;
+  /** Link to the note, formatted with the notebook's link format */
+  link: string;
+  lead: string;
+  body: string;
+  snippets: string[];
+  rawContent: string;
+  wordCount: number;
+  tags: string[];
+  metadata: Record<string, unknown>;
+  created?: Date;
+  modified?: Date;
+  checksum: string;
+  /** Number of notes linking to this note (only with `withLinkCounts`) */
+  backlinkCount?: number;
+  /** Number of notes this note links to (only with `withLinkCounts`) */
+  outgoingLinkCount?: number;
+}
+
+/**
+ * A link between two notes, as returned by `zk graph --format json`
+ */
+export interface ZKLink {
+  title: string;
+  href: string;
+  type: string;
+  isExternal: boolean;
+  rels: string[];
+  snippet: string;
+  sourcePath: string;
+  targetPath?: string;
+}
+
+export type SortField = "created" | "modified" | "path" | "title" | "random" | "word-count";
+
+/** How `--match` is interpreted: full-text search syntax, exact text or a regular expression */
+export type MatchStrategy = "fts" | "exact" | "re";
+
+export interface ListOptions {
+  /** Full-text query (`--match`) */
+  match?: string;
+  /** `--match-strategy`, zk's default being `fts` */
+  matchStrategy?: MatchStrategy;
+  /** Notes must have all of these tags */
+  tags?: string[];
+  /** Notes must have none of these tags */
+  excludeTags?: string[];
+  created?: string;
+  createdBefore?: string;
+  createdAfter?: string;
+  modified?: string;
+  modifiedBefore?: string;
+  modifiedAfter?: string;
+  /** Notes linked by these notes (outgoing links) */
+  linkedBy?: string[];
+  /** Notes linking to these notes (backlinks) */
+  linkTo?: string[];
+  /** Notes related to these notes */
+  related?: string[];
+  orphan?: boolean;
+  tagless?: boolean;
+  /** Restrict to notes under these notebook-relative paths */
+  paths?: string[];
+  /** Sort criteria, e.g. `modified` or `title+` */
+  sort?: Array<SortField | `${SortField}+` | `${SortField}-`>;
+  limit?: number;
+  /** Also fill in backlink and outgoing link counts (runs `zk graph`) */
+  withLinkCounts?: boolean;
+}
+
+export interface NewNoteOptions {
+  title: string;
+  group?: string;
+  /** Working directory the note is created in */
+  directory?: string;
+  template?: string;
+  extra?: Record<string, string>;
+  /** Date the note is created for (`now` in templates), defaults to the current date */
+  date?: string;
+}
+
+export interface ZkClientOptions {
+  bin: string;
+  notebookDir: string;
+}
+
+/**
+ * Error raised when zk exits with a non-zero status
+ */
+export class ZkError extends Error {
+  readonly args: string[];
+  readonly exitCode: number | null;
+  readonly stderr: string;
+
+  constructor(args: string[], exitCode: number | null, stderr: string, cause?: string) {
+    super(ZkError.describe(stderr, exitCode, cause));
+    this.name = "ZkError";
+    this.args = args;
+    this.exitCode = exitCode;
+    this.stderr = stderr;
+  }
+
+  /**
+   * Pick the most useful line out of zk's stderr
+   */
+  private static describe(stderr: string, exitCode: number | null, cause?: string): string {
+    const lines = stderr
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean);
+    const errorLine = lines.find((line) => line.startsWith("zk: error:")) || lines.pop();
+    if (errorLine) {
+      return errorLine.replace(/^zk: error:\s*/, "");
+    }
+    if (cause) {
+      return cause;
+    }
+    return `zk exited with code ${exitCode}`;
+  }
+}
+
+/**
+ * Thin typed wrapper around the zk command line
+ */
+export class ZkClient {
+  readonly bin: string;
+  readonly notebookDir: string;
+
+  constructor(options: ZkClientOptions) {
+    this.bin = options.bin;
+    this.notebookDir = options.notebookDir;
+  }
+
+  /**
+   * Run zk with the given arguments and return its stdout.
+   * Arguments are passed as argv, so no shell quoting is involved.
+   */
+  run(args: string[]): Promise<string> {
+    const env = {
+      ...process.env,
+      ZK_NOTEBOOK_DIR: this.notebookDir,
+      EDITOR: "/usr/bin/true",
+      VISUAL: "/usr/bin/true",
+    };
+
+    return new Promise((resolve, reject) => {
+      execFile(
+        this.bin,
+        args,
+        {
+          cwd: this.notebookDir,
+          env,
+          maxBuffer: 64 * 1024 * 1024, // 64MB
+        },
+        (error, stdout, stderr) => {
+          if (error) {
+            // Spawn failures (missing binary, ...) have a string code and no exit status
+            const exitCode = typeof error.code === "number" ? error.code : null;
+            reject(new ZkError(args, exitCode, String(stderr || ""), error.message));
+            return;
+          }
+          resolve(String(stdout));
+        },
+      );
+    });
+  }
+
+  /**
+   * List notes matching the given options
+   */
+  async list(options: ListOptions = {}): Promise<ZKNote[]> {
+    const args = ["list", "--format", "json", "--no-input", "--quiet", ...listArgs(options)];
+
+    if (options.withLinkCounts) {
+      const [output, links] = await Promise.all([this.run(args), this.links()]);
+      return withLinkCounts(parseNotes(output, this.notebookDir), links);
+    }
+
+    return parseNotes(await this.run(args), this.notebookDir);
+  }
+
+  /**
+   * List every link between notes of the notebook
+   */
+  async links(): Promise<ZKLink[]> {
+    const output = await this.run(["graph", "--format", "json", "--no-input", "--quiet"]);
+    if (!output.trim()) {
+      return [];
+    }
+    const graph = JSON.parse(output);
+    return Array.isArray(graph?.links) ? graph.links : [];
+  }
+
+  /**
+   * Create a new note and return its absolute path
+   */
+  async create(options: NewNoteOptions): Promise<string> {
+    const args = ["new", "--no-input", "--print-path", "--title", options.title];
+
+    if (options.group) {
+      args.push("--group", options.group);
+    }
+    if (options.template) {
+      args.push("--template", options.template);
+    }
+    if (options.date) {
+      args.push("--date", options.date);
+    }
+    for (const [key, value] of Object.entries(options.extra || {})) {
+      args.push("--extra", `${key}=${value}`);
+    }
+    if (options.directory) {
+      // zk resolves the directory against its working directory, the notebook root
+      const directory = isAbsolute(options.directory)
+        ? relative(this.notebookDir, options.directory)
+        : options.directory;
+      args.push(directory || ".");
+    }
+
+    const output = await this.run(args);
+    const createdPath = output
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .pop();
+
+    if (!createdPath) {
+      throw new Error("zk did not print the path of the created note");
+    }
+
+    return isAbsolute(createdPath) ? createdPath : join(this.notebookDir, createdPath);
+  }
+}
+
+/**
+ * Translate list options into zk list flags
+ */
+function listArgs(options: ListOptions): string[] {
+  const args: string[] = [];
+
+  const flag = (name: string, value?: string) => {
+    if (value) {
+      args.push(`--${name}`, value);
+    }
+  };
+  const flags = (name: string, values?: string[]) => {
+    for (const value of values || []) {
+      flag(name, value);
+    }
+  };
+
+  flag("match", options.match);
+  flag("match-strategy", options.match ? options.matchStrategy : undefined);
+  flags("tag", options.tags);
+  flags("tag", options.excludeTags?.map((tag) => `NOT ${tag}`));
+  flag("created", options.created);
+  flag("created-before", options.createdBefore);
+  flag("created-after", options.createdAfter);
+  flag("modified", options.modified);
+  flag("modified-before", options.modifiedBefore);
+  flag("modified-after", options.modifiedAfter);
+  flags("linked-by", options.linkedBy);
+  flags("link-to", options.linkTo);
+  flags("related", options.related);
+  flags("sort", options.sort);
+
+  if (options.orphan) {
+    args.push("--orphan");
+  }
+  if (options.tagless) {
+    args.push("--tagless");
+  }
+  if (options.limit) {
+    args.push("--limit", String(options.limit));
+  }
+  if (options.paths?.length) {
+    // Paths are positional, keep them out of flag parsing
+    args.push("--", ...options.paths);
+  }
+
+  return args;
+}
+
+/**
+ * Parse `zk list --format json` output into typed notes
+ */
+function parseNotes(output: string, notebookDir: string): ZKNote[] {
+  if (!output.trim()) {
+    return [];
+  }
+
+  const raw = JSON.parse(output);
+  if (!Array.isArray(raw)) {
+    throw new Error("Expected array of notes from zk list");
+  }
+
+  return raw.map((note: any) => toNote(note, notebookDir));
+}
+
+function toDate(value: unknown): Date | undefined {
+  if (typeof value !== "string" || !value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function toNote(note: any, notebookDir: string): ZKNote {
+  const path: string = note.path || "";
+  const filename: string = note.filename || basename(path);
+  const filenameStem: string = note.filenameStem || filename.replace(/\.md$/, "");
+  const absPath: string = note.absPath || join(notebookDir, path);
+
+  return {
+    id: absPath,
+    notebookDir,
+    title: note.title || filenameStem || "Untitled",
+    path,
+    absPath,
+    filename,
+    filenameStem,
+    link: note.link || "",
+    lead: note.lead || "",
+    body: note.body || "",
+    snippets: Array.isArray(note.snippets) ? note.snippets : [],
+    rawContent: note.rawContent || "",
+    wordCount: typeof note.wordCount === "number" ? note.wordCount : 0,
+    tags: Array.isArray(note.tags) ? note.tags : [],
+    metadata: note.metadata && typeof note.metadata === "object" ? note.metadata : {},
+    created: toDate(note.created),
+    modified: toDate(note.modified),
+    checksum: note.checksum || "",
+  };
+}
+
+/**
+ * Fill in link counts from the notebook's link graph
+ */
+function withLinkCounts(notes: ZKNote[], links: ZKLink[]): ZKNote[] {
+  const backlinks = new Map<string, Set<string>>();
+  const outgoing = new Map<string, Set<string>>();
+
+  const add = (map: Map<string, Set<string>>, key: string, value: string) => {
+    const set = map.get(key) || new Set<string>();
+    set.add(value);
+    map.set(key, set);
+  };
+
+  for (const link of links) {
+    if (link.isExternal || !link.targetPath || link.targetPath === link.sourcePath) {
+      continue;
+    }
+    add(backlinks, link.targetPath, link.sourcePath);
+    add(outgoing, link.sourcePath, link.targetPath);
+  }
+
+  return notes.map((note) => ({
+    ...note,
+    backlinkCount: backlinks.get(note.path)?.size || 0,
+    outgoingLinkCount: outgoing.get(note.path)?.size || 0,
+  }));
+}
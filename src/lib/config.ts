@@ -0,0 +1,332 @@
+import { readFile, readdir } from "fs/promises";
+import { join } from "path";
+
+/**
+ * Reading of the notebook's `.zk/config.toml` and `.zk/templates`.
+ *
+ * Only the subset of TOML used by zk configs is supported: tables, dotted
+ * table names, strings, numbers, booleans and (multi-line) arrays.
+ */
+
+export type TomlValue = string | number | boolean | TomlValue[] | TomlTable;
+
+export interface TomlTable {
+  [key: string]: TomlValue;
+}
+
+export interface NoteGroup {
+  name: string;
+  /** Notebook-relative directories the group applies to */
+  paths: string[];
+  template?: string;
+  filename?: string;
+}
+
+export interface NotebookConfig {
+  groups: NoteGroup[];
+  /** Default template of `[note]` */
+  template?: string;
+  /** `wiki`, `markdown` or a custom template, from `[format.markdown]` */
+  linkFormat?: string;
+  /** `link-encode-path` of `[format.markdown]` */
+  linkEncodePath?: boolean;
+  /** `link-drop-extension` of `[format.markdown]` */
+  linkDropExtension?: boolean;
+  /** Default extra variables from `[extra]` */
+  extra: Record<string, string>;
+  raw: TomlTable;
+}
+
+export interface NoteTemplate {
+  /** File name relative to `.zk/templates` */
+  name: string;
+  path: string;
+  /** `extra.*` variables used by the template */
+  variables: string[];
+}
+
+/**
+ * Parse a TOML string value (basic or literal)
+ */
+function parseString(text: string): { value: string; rest: string } {
+  const quote = text[0];
+
+  if (quote === "'") {
+    const end = text.indexOf("'", 1);
+    if (end < 0) {
+      throw new Error("Unterminated string");
+    }
+    return { value: text.slice(1, end), rest: text.slice(end + 1) };
+  }
+
+  let value = "";
+  for (let i = 1; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') {
+      return { value, rest: text.slice(i + 1) };
+    }
+    if (char === "\\") {
+      const next = text[++i];
+      const escapes: Record<string, string> = { n: "\n", t: "\t", r: "\r", '"': '"', "\\": "\\" };
+      value += escapes[next] ?? next;
+    } else {
+      value += char;
+    }
+  }
+  throw new Error("Unterminated string");
+}
+
+/**
+ * Parse one TOML value at the start of `text`
+ */
+function parseValue(text: string): { value: TomlValue; rest: string } {
+  const trimmed = text.trimStart();
+
+  if (trimmed.startsWith('"') || trimmed.startsWith("'")) {
+    return parseString(trimmed);
+  }
+
+  if (trimmed.startsWith("[")) {
+    const items: TomlValue[] = [];
+    let rest = trimmed.slice(1);
+    for (;;) {
+      rest = rest.replace(/^(\s|,|#[^\n]*)+/, "");
+      if (rest.startsWith("]")) {
+        return { value: items, rest: rest.slice(1) };
+      }
+      if (!rest) {
+        throw new Error("Unterminated array");
+      }
+      const item = parseValue(rest);
+      items.push(item.value);
+      rest = item.rest;
+    }
+  }
+
+  if (trimmed.startsWith("{")) {
+    const table: TomlTable = {};
+    let rest = trimmed.slice(1);
+    for (;;) {
+      rest = rest.replace(/^[\s,]+/, "");
+      if (rest.startsWith("}")) {
+        return { value: table, rest: rest.slice(1) };
+      }
+      const key = rest.match(/^("[^"]*"|[A-Za-z0-9_-]+)\s*=/);
+      if (!key) {
+        throw new Error("Invalid inline table");
+      }
+      const item = parseValue(rest.slice(key[0].length));
+      table[key[1].replace(/"/g, "")] = item.value;
+      rest = item.rest;
+    }
+  }
+
+  const scalar = trimmed.match(/^[^\s,\]}#]+/);
+  if (!scalar) {
+    throw new Error(`Invalid value: ${trimmed.slice(0, 20)}`);
+  }
+  const raw = scalar[0];
+  const rest = trimmed.slice(raw.length);
+  if (raw === "true" || raw === "false") {
+    return { value: raw === "true", rest };
+  }
+  const number = Number(raw.replace(/_/g, ""));
+  return { value: isNaN(number) ? raw : number, rest };
+}
+
+function splitKey(key: string): string[] {
+  return (key.match(/"[^"]*"|[^.\s]+/g) || []).map((part) => part.replace(/^"|"$/g, ""));
+}
+
+function tableAt(root: TomlTable, path: string[]): TomlTable {
+  let table = root;
+  for (const part of path) {
+    const next = table[part];
+    if (!next || typeof next !== "object" || Array.isArray(next)) {
+      table[part] = {};
+    }
+    table = table[part] as TomlTable;
+  }
+  return table;
+}
+
+/**
+ * Parse the TOML subset used by zk configuration files
+ */
+export function parseToml(source: string): TomlTable {
+  const root: TomlTable = {};
+  let current = root;
+  let rest = source;
+
+  while (rest) {
+    rest = rest.replace(/^(\s|#[^\n]*)+/, "");
+    if (!rest) {
+      break;
+    }
+
+    const header = rest.match(/^\[([^\]\n]+)\][^\n]*/);
+    if (header) {
+      current = tableAt(root, splitKey(header[1]));
+      rest = rest.slice(header[0].length);
+      continue;
+    }
+
+    const key = rest.match(/^("[^"\n]*"|[A-Za-z0-9_.-]+)\s*=/);
+    if (!key) {
+      throw new Error(`Invalid line: ${rest.split("\n")[0]}`);
+    }
+    const path = splitKey(key[1]);
+    const { value, rest: after } = parseValue(rest.slice(key[0].length));
+    tableAt(current, path.slice(0, -1))[path[path.length - 1]] = value;
+    rest = after;
+  }
+
+  return root;
+}
+
+function asTable(value: TomlValue | undefined): TomlTable {
+  return value && typeof value === "object" && !Array.isArray(value) ? value : {};
+}
+
+function asString(value: TomlValue | undefined): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+function asBoolean(value: TomlValue | undefined): boolean | undefined {
+  return typeof value === "boolean" ? value : undefined;
+}
+
+/**
+ * Read `.zk/config.toml`; a missing file yields an empty configuration
+ */
+export async function readNotebookConfig(notebookDir: string): Promise<NotebookConfig> {
+  let raw: TomlTable = {};
+  try {
+    raw = parseToml(await readFile(join(notebookDir, ".zk", "config.toml"), "utf-8"));
+  } catch (error: any) {
+    if (error.code !== "ENOENT") {
+      throw new Error(`Invalid .zk/config.toml: ${error.message}`);
+    }
+  }
+
+  const groups = Object.entries(asTable(raw.group)).map(([name, value]) => {
+    const group = asTable(value);
+    const note = asTable(group.note);
+    return {
+      name,
+      paths: Array.isArray(group.paths) ? group.paths.filter((path): path is string => typeof path === "string") : [],
+      template: asString(note.template),
+      filename: asString(note.filename),
+    };
+  });
+
+  const extra: Record<string, string> = {};
+  for (const [key, value] of Object.entries(asTable(raw.extra))) {
+    extra[key] = String(value);
+  }
+
+  const markdown = asTable(asTable(raw.format).markdown);
+
+  return {
+    groups,
+    template: asString(asTable(raw.note).template),
+    linkFormat: asString(markdown["link-format"]),
+    linkEncodePath: asBoolean(markdown["link-encode-path"]),
+    linkDropExtension: asBoolean(markdown["link-drop-extension"]),
+    extra,
+    raw,
+  };
+}
+
+/**
+ * Names of the `extra.*` variables used by a template
+ */
+export function templateVariables(content: string): string[] {
+  const variables = new Set<string>();
+  for (const match of content.matchAll(/\bextra\.([A-Za-z0-9_-]+)/g)) {
+    variables.add(match[1]);
+  }
+  return Array.from(variables);
+}
+
+/**
+ * List the templates of `.zk/templates` with the extra variables they use
+ */
+export async function listTemplates(notebookDir: string): Promise<NoteTemplate[]> {
+  const dir = join(notebookDir, ".zk", "templates");
+  let entries: string[];
+  try {
+    entries = await readdir(dir);
+  } catch {
+    return [];
+  }
+
+  const templates = await Promise.all(
+    entries
+      .filter((name) => !name.startsWith("."))
+      .sort()
+      .map(async (name) => {
+        const path = join(dir, name);
+        const content = await readFile(path, "utf-8").catch(() => "");
+        return { name, path, variables: templateVariables(content) };
+      })
+  );
+
+  return templates;
+}
+
+/**
+ * Notebook-relative directories that notes can be created in (dot folders excluded)
+ */
+export async function listNoteDirectories(notebookDir: string, maxDepth = 3): Promise<string[]> {
+  const directories: string[] = [];
+
+  const walk = async (relative: string, depth: number) => {
+    if (depth > maxDepth) {
+      return;
+    }
+    const entries = await readdir(join(notebookDir, relative), { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      if (!entry.isDirectory() || entry.name.startsWith(".")) {
+        continue;
+      }
+      const path = relative ? `${relative}/${entry.name}` : entry.name;
+      directories.push(path);
+      await walk(path, depth + 1);
+    }
+  };
+
+  await walk("", 1);
+  return directories.sort((a, b) => a.localeCompare(b));
+}
+
+export interface MoveDestination {
+  /** Notebook-relative folder, `""` being the notebook root */
+  path: string;
+  /** Name of the zk group the folder belongs to */
+  group?: string;
+}
+
+/**
+ * Folders of a notebook a note can be moved to, those of zk groups first.
+ * Group folders are offered even before they exist.
+ */
+export async function listMoveDestinations(notebookDir: string): Promise<MoveDestination[]> {
+  const [config, directories] = await Promise.all([readNotebookConfig(notebookDir), listNoteDirectories(notebookDir)]);
+  const destinations = new Map<string, MoveDestination>();
+
+  for (const group of config.groups) {
+    for (const path of group.paths) {
+      if (!destinations.has(path)) {
+        destinations.set(path, { path, group: group.name });
+      }
+    }
+  }
+  for (const path of ["", ...directories]) {
+    if (!destinations.has(path)) {
+      destinations.set(path, { path });
+    }
+  }
+
+  return Array.from(destinations.values());
+}
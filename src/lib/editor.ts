@@ -0,0 +1,205 @@
+import { Application, getPreferenceValues, open } from "@raycast/api";
+import { execFile, spawn } from "child_process";
+import { dirname } from "path";
+
+/**
+ * Editor launchers, selected with the extension's Editor preferences.
+ * Every launcher reports its own failure; there is no silent fallback to another one.
+ */
+
+export type EditorProfile = "terminal" | "app" | "vscode" | "obsidian" | "default" | "custom";
+
+export interface OpenTarget {
+  /** Absolute path of the note */
+  path: string;
+  /** 1-based line to jump to, when the editor supports it */
+  line?: number;
+}
+
+const PROFILE_NAMES: Record<EditorProfile, string> = {
+  terminal: "Terminal editor",
+  app: "Editor app",
+  vscode: "Visual Studio Code",
+  obsidian: "Obsidian",
+  default: "System default app",
+  custom: "Custom command",
+};
+
+/** How long a custom command may take to fail before it is considered launched */
+const CUSTOM_COMMAND_GRACE_MS = 1500;
+
+/**
+ * Error raised when the configured editor cannot be launched
+ */
+export class EditorLaunchError extends Error {
+  readonly profile: EditorProfile;
+
+  constructor(profile: EditorProfile, reason: string) {
+    super(`${PROFILE_NAMES[profile]}: ${reason}`);
+    this.name = "EditorLaunchError";
+    this.profile = profile;
+  }
+}
+
+/**
+ * Quote a value for /bin/sh
+ */
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function run(file: string, args: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    execFile(file, args, { timeout: 10000 }, (error, _stdout, stderr) => {
+      if (error) {
+        reject(new Error(String(stderr || "").trim() || error.message));
+        return;
+      }
+      resolve();
+    });
+  });
+}
+
+/**
+ * The editor command run in the terminal: the shell's $EDITOR, else the preference.
+ * $EDITOR is resolved by the terminal's login shell, Raycast's own environment does not have it.
+ */
+function terminalEditorCommand(target: OpenTarget, editor: string): string {
+  // vi-style editors (vim, nvim, nano, emacs -nw, hx, ...) all accept +LINE
+  const line = target.line ? ` +${target.line}` : "";
+  // eval splits the editor into words (`code -w`), so the path is quoted once more for it
+  const path = shellQuote(shellQuote(target.path));
+  return `ZK_EDITOR=${shellQuote(editor || "vi")}; eval "\${EDITOR:-$ZK_EDITOR}"${line} ${path}`;
+}
+
+/**
+ * Run a command in the chosen terminal application
+ */
+async function launchInTerminal(terminal: Application | undefined, command: string, dir: string): Promise<void> {
+  const shellCommand = `cd ${shellQuote(dir)} && ${command}`;
+  const bundleId = terminal?.bundleId || "com.apple.Terminal";
+  const appleScriptString = (value: string) => `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+
+  switch (bundleId) {
+    case "com.apple.Terminal":
+      await run("/usr/bin/osascript", [
+        "-e",
+        `tell application "Terminal" to do script ${appleScriptString(shellCommand)}`,
+        "-e",
+        'tell application "Terminal" to activate',
+      ]);
+      return;
+    case "com.googlecode.iterm2":
+      await run("/usr/bin/osascript", [
+        "-e",
+        `tell application "iTerm" to create window with default profile command ${appleScriptString(
+          `/bin/zsh -lc ${shellQuote(shellCommand)}`
+        )}`,
+        "-e",
+        'tell application "iTerm" to activate',
+      ]);
+      return;
+    case "net.kovidgoyal.kitty":
+      await run("/usr/bin/open", ["-na", terminal?.path || "kitty", "--args", "/bin/zsh", "-lc", shellCommand]);
+      return;
+    case "com.github.wez.wezterm":
+      await run("/usr/bin/open", [
+        "-na",
+        terminal?.path || "WezTerm",
+        "--args",
+        "start",
+        "--",
+        "/bin/zsh",
+        "-lc",
+        shellCommand,
+      ]);
+      return;
+    default:
+      // Ghostty, Alacritty and most other terminals take the command after -e
+      await run("/usr/bin/open", ["-na", terminal?.path || bundleId, "--args", "-e", "/bin/zsh", "-lc", shellCommand]);
+  }
+}
+
+/**
+ * Fill `{path}`, `{line}` and `{dir}` placeholders of a custom command (values are shell-quoted)
+ */
+export function fillCommandTemplate(template: string, target: OpenTarget): string {
+  const values: Record<string, string> = {
+    path: shellQuote(target.path),
+    line: String(target.line || 1),
+    dir: shellQuote(dirname(target.path)),
+  };
+  return template.replace(/\{(path|line|dir)\}/g, (_, name: string) => values[name]);
+}
+
+/**
+ * Run a custom command detached; fail only if it exits with an error right away
+ */
+function launchCustomCommand(command: string, dir: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn("/bin/sh", ["-c", command], { cwd: dir, detached: true, stdio: ["ignore", "ignore", "pipe"] });
+    let stderr = "";
+    child.stderr?.on("data", (chunk) => (stderr += chunk));
+
+    const timer = setTimeout(() => {
+      child.stderr?.destroy();
+      child.unref();
+      resolve();
+    }, CUSTOM_COMMAND_GRACE_MS);
+
+    child.on("error", (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on("exit", (code) => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(stderr.trim() || `exited with code ${code}`));
+      }
+    });
+  });
+}
+
+/**
+ * Open a note with the editor configured in the extension preferences
+ */
+export async function launchEditor(target: OpenTarget): Promise<void> {
+  const preferences = getPreferenceValues<Preferences>();
+  const profile = (preferences.editor || "default") as EditorProfile;
+  const dir = dirname(target.path);
+
+  try {
+    switch (profile) {
+      case "terminal":
+        await launchInTerminal(preferences.terminalApp, terminalEditorCommand(target, preferences.terminalEditor), dir);
+        break;
+      case "app":
+        if (!preferences.editorApp) {
+          throw new Error("no editor app selected in the extension preferences");
+        }
+        await open(target.path, preferences.editorApp);
+        break;
+      case "vscode":
+        await open(`vscode://file${encodeURI(target.path)}:${target.line || 1}`);
+        break;
+      case "obsidian":
+        await open(`obsidian://open?path=${encodeURIComponent(target.path)}`);
+        break;
+      case "custom":
+        if (!preferences.customEditorCommand?.trim()) {
+          throw new Error("no command set in the extension preferences");
+        }
+        await launchCustomCommand(fillCommandTemplate(preferences.customEditorCommand, target), dir);
+        break;
+      default:
+        await open(target.path);
+    }
+  } catch (error: any) {
+    if (error instanceof EditorLaunchError) {
+      throw error;
+    }
+    throw new EditorLaunchError(profile, error.message || String(error));
+  }
+}
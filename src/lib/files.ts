@@ -0,0 +1,65 @@
+import { readFile, rename, stat, unlink, writeFile } from "fs/promises";
+import { basename, dirname, join } from "path";
+
+/**
+ * Write a file atomically: the content goes to a temporary file in the same
+ * directory which then replaces the target, so readers (and editors) never see
+ * a partially written file.
+ */
+export async function writeFileAtomic(path: string, content: string): Promise<void> {
+  const tmpPath = join(dirname(path), `.${basename(path)}.${process.pid}.${Date.now()}.tmp`);
+  try {
+    await writeFile(tmpPath, content, "utf-8");
+    await rename(tmpPath, path);
+  } catch (error) {
+    await unlink(tmpPath).catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Append text to the end of a file, separated from the existing content by a blank line
+ */
+export async function appendToFile(path: string, text: string): Promise<void> {
+  await updateFileAtomic(path, (content) => {
+    const separator = content.trim() ? (content.endsWith("\n") ? "\n" : "\n\n") : "";
+    return `${content}${separator}${text.replace(/\s+$/, "")}\n`;
+  });
+}
+
+/** Attempts made by updateFileAtomic when the file keeps changing underneath it */
+const UPDATE_ATTEMPTS = 5;
+
+/**
+ * Rewrite a file through `transform`, atomically.
+ * If the file changes while the new content is prepared (e.g. an editor saves it),
+ * the transform is applied again to the fresh content instead of overwriting it.
+ */
+export async function updateFileAtomic(path: string, transform: (content: string) => string): Promise<void> {
+  for (let attempt = 0; attempt < UPDATE_ATTEMPTS; attempt++) {
+    const before = await stat(path);
+    const content = await readFile(path, "utf-8");
+    const updated = transform(content);
+
+    const tmpPath = join(dirname(path), `.${basename(path)}.${process.pid}.${Date.now()}.tmp`);
+    await writeFile(tmpPath, updated, "utf-8");
+
+    const after = await stat(path);
+    const current = await readFile(path, "utf-8");
+    if (after.mtimeMs !== before.mtimeMs || current !== content) {
+      // Someone else wrote the file meanwhile, start over from their version
+      await unlink(tmpPath).catch(() => undefined);
+      continue;
+    }
+
+    try {
+      await rename(tmpPath, path);
+    } catch (error) {
+      await unlink(tmpPath).catch(() => undefined);
+      throw error;
+    }
+    return;
+  }
+
+  throw new Error(`${basename(path)} kept changing while it was being updated, try again`);
+}
@@ -0,0 +1,115 @@
+import { getPreferenceValues, LocalStorage } from "@raycast/api";
+import { ZKNote } from "./client";
+
+/**
+ * Notes opened from the extension, used to rank results by frecency
+ * (how often and how recently a note was opened). Kept in LocalStorage, by absolute path.
+ */
+
+const STORAGE_KEY = "note-visits";
+/** Visit times kept per note, enough to tell frequent notes apart */
+const MAX_VISITS = 10;
+/** Notes kept in the log, the least recently opened are dropped */
+const MAX_NOTES = 500;
+/** Weight of frecency against the order of the results, both being scaled to 0-1 */
+const FRECENCY_WEIGHT = 1.5;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/** Results are ranked by frecency unless turned off in the preferences */
+export const RANK_BY_FRECENCY = getPreferenceValues<Preferences>().rankByFrecency !== false;
+
+export interface NoteVisits {
+  /** Every recorded open */
+  count: number;
+  /** Most recent visit times (ms), newest first */
+  visits: number[];
+}
+
+export type VisitLog = Record<string, NoteVisits>;
+
+export async function loadVisits(): Promise<VisitLog> {
+  const stored = await LocalStorage.getItem<string>(STORAGE_KEY);
+  try {
+    const log = stored ? JSON.parse(stored) : {};
+    return log && typeof log === "object" ? log : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Record that a note was opened or previewed
+ */
+export async function recordVisit(noteId: string, now: number = Date.now()): Promise<void> {
+  const log = await loadVisits();
+  const entry = log[noteId] || { count: 0, visits: [] };
+  log[noteId] = { count: entry.count + 1, visits: [now, ...entry.visits].slice(0, MAX_VISITS) };
+
+  const ids = Object.keys(log);
+  if (ids.length > MAX_NOTES) {
+    ids
+      .sort((a, b) => (log[b].visits[0] || 0) - (log[a].visits[0] || 0))
+      .slice(MAX_NOTES)
+      .forEach((id) => delete log[id]);
+  }
+
+  await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(log));
+}
+
+/**
+ * Weight of a visit by age, recent visits counting most
+ */
+function visitWeight(age: number): number {
+  if (age < 4 * DAY) {
+    return 100;
+  }
+  if (age < 14 * DAY) {
+    return 70;
+  }
+  if (age < 31 * DAY) {
+    return 50;
+  }
+  if (age < 90 * DAY) {
+    return 30;
+  }
+  return 10;
+}
+
+/**
+ * Frecency of a note: the weights of its recent visits, scaled up to all its visits
+ */
+export function frecencyScore(entry: NoteVisits | undefined, now: number = Date.now()): number {
+  if (!entry || entry.visits.length === 0) {
+    return 0;
+  }
+  const weights = entry.visits.reduce((sum, visit) => sum + visitWeight(now - visit), 0);
+  return (weights / entry.visits.length) * entry.count;
+}
+
+/**
+ * Reorder results by their position (zk's match ranking or sort order) blended with frecency
+ */
+export function rankNotes(notes: ZKNote[], log: VisitLog, now: number = Date.now()): ZKNote[] {
+  const scores = new Map(notes.map((note) => [note.id, frecencyScore(log[note.id], now)]));
+  const maxScore = Math.max(0, ...scores.values());
+  if (maxScore === 0) {
+    return notes;
+  }
+
+  const ranked = notes.map((note, index) => ({
+    note,
+    score: 1 - index / notes.length + FRECENCY_WEIGHT * ((scores.get(note.id) || 0) / maxScore),
+  }));
+  return ranked.sort((a, b) => b.score - a.score).map((item) => item.note);
+}
+
+/**
+ * Notes of a list opened most recently, newest first
+ */
+export function recentlyOpened(notes: ZKNote[], log: VisitLog, limit = 5): ZKNote[] {
+  return notes
+    .filter((note) => log[note.id]?.visits.length)
+    .sort((a, b) => log[b.id].visits[0] - log[a.id].visits[0])
+    .slice(0, limit);
+}
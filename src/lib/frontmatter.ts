@@ -0,0 +1,272 @@
+/**
+ * Line-based editing of a note's YAML frontmatter.
+ * Fields are replaced in place so that the other fields, their order and the body are kept as written.
+ */
+
+export interface FrontmatterBlock {
+  /** Lines between the `---` delimiters */
+  lines: string[];
+  /** Index of the closing `---` in the note's lines */
+  end: number;
+}
+
+/**
+ * Locate the frontmatter of a note, or null if it has none
+ */
+export function findFrontmatter(lines: string[]): FrontmatterBlock | null {
+  if (lines[0]?.trim() !== "---") {
+    return null;
+  }
+  const end = lines.findIndex((line, index) => index > 0 && /^(---|\.\.\.)\s*$/.test(line));
+  return end < 0 ? null : { lines: lines.slice(1, end), end };
+}
+
+/**
+ * Position of a field in the frontmatter block: its line and its indented continuation lines
+ */
+function fieldRange(block: FrontmatterBlock, key: string): { start: number; length: number } | null {
+  const start = block.lines.findIndex((line) => line.startsWith(`${key}:`));
+  if (start < 0) {
+    return null;
+  }
+
+  let length = 1;
+  while (start + length < block.lines.length && /^(\s|-\s)/.test(block.lines[start + length])) {
+    length++;
+  }
+  return { start, length };
+}
+
+/**
+ * Set a field to a YAML value written as-is (e.g. `[a, b]` or `"text"`), replacing the
+ * field and its indented continuation lines. The frontmatter is created if missing.
+ */
+export function setFrontmatterField(content: string, key: string, value: string): string {
+  const lines = content.split("\n");
+  const block = findFrontmatter(lines);
+  const field = `${key}: ${value}`;
+
+  if (!block) {
+    return `---\n${field}\n---\n${content}`;
+  }
+
+  const range = fieldRange(block, key);
+  if (!range) {
+    lines.splice(block.end, 0, field);
+    return lines.join("\n");
+  }
+
+  // +1: block lines start after the opening delimiter
+  lines.splice(range.start + 1, range.length, field);
+  return lines.join("\n");
+}
+
+/**
+ * Remove a field and its continuation lines; other lines are left as they are
+ */
+export function removeFrontmatterField(content: string, key: string): string {
+  const lines = content.split("\n");
+  const block = findFrontmatter(lines);
+  const range = block && fieldRange(block, key);
+  if (!range) {
+    return content;
+  }
+
+  lines.splice(range.start + 1, range.length);
+  return lines.join("\n");
+}
+
+/**
+ * Apply several field changes: YAML values written as-is, or null to remove the field.
+ * Existing fields keep their position, new ones are added at the end.
+ */
+export function updateFrontmatter(content: string, changes: Record<string, string | null>): string {
+  return Object.entries(changes).reduce(
+    (updated, [key, value]) =>
+      value === null ? removeFrontmatterField(updated, key) : setFrontmatterField(updated, key, value),
+    content
+  );
+}
+
+/**
+ * Values of a list field, written either as `[a, b]`, as `- a` lines or as a single value
+ */
+export function frontmatterList(content: string, key: string): string[] {
+  const block = findFrontmatter(content.split("\n"));
+  if (!block) {
+    return [];
+  }
+
+  const start = block.lines.findIndex((line) => line.startsWith(`${key}:`));
+  if (start < 0) {
+    return [];
+  }
+
+  const inline = block.lines[start].slice(key.length + 1).trim();
+  if (inline.startsWith("[")) {
+    return inline
+      .replace(/^\[|\]$/g, "")
+      .split(",")
+      .map(unquote)
+      .filter(Boolean);
+  }
+  if (inline) {
+    return inline.split(/[,\s]+/).map(unquote).filter(Boolean);
+  }
+
+  const values: string[] = [];
+  for (const line of block.lines.slice(start + 1)) {
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (!item) {
+      break;
+    }
+    values.push(unquote(item[1]));
+  }
+  return values;
+}
+
+/**
+ * YAML scalar for a string, quoted when it would otherwise be read as something else
+ */
+export function yamlScalar(value: string): string {
+  const needsQuotes =
+    !value ||
+    value !== value.trim() ||
+    /^[-?:,[\]{}#&*!|>'"%@`]/.test(value) ||
+    /: |\s#/.test(value) ||
+    /^(true|false|null|yes|no|on|off|~|[-+]?\d[\d._:-]*)$/i.test(value);
+  return needsQuotes ? JSON.stringify(value) : value;
+}
+
+/**
+ * Type YAML reads an unquoted scalar as, undefined for plain strings
+ */
+export function scalarType(value: string): "bool" | "number" | "date" | undefined {
+  if (/^(true|false|yes|no|on|off)$/i.test(value)) {
+    return "bool";
+  }
+  if (/^[-+]?(\d[\d_]*(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/.test(value)) {
+    return "number";
+  }
+  if (/^\d{4}-\d\d-\d\d([Tt ]\d\d?:\d\d(:\d\d(\.\d+)?)?\s*(Z|[-+]\d\d?(:?\d\d)?)?)?$/.test(value)) {
+    return "date";
+  }
+  return undefined;
+}
+
+export interface FrontmatterEntry {
+  key: string;
+  /** Scalar value, or the items of a list */
+  value: string | string[];
+  /** Whether a scalar value is written in quotes */
+  quoted: boolean;
+  /** Whether the value spans several lines (block lists, nested maps, folded text) */
+  multiline: boolean;
+}
+
+/**
+ * Malformed frontmatter, with the 1-based line of the note the problem is on
+ */
+export class FrontmatterError extends Error {
+  readonly line: number;
+
+  constructor(line: number, message: string) {
+    super(`Line ${line}: ${message}`);
+    this.name = "FrontmatterError";
+    this.line = line;
+  }
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(["'])(.*)\1$/, "$2");
+}
+
+/**
+ * Top-level fields of frontmatter lines. Lists (`[a, b]` or `- a` lines) are split,
+ * other nested values are kept as written.
+ */
+export function frontmatterEntries(lines: string[]): FrontmatterEntry[] {
+  const entries: FrontmatterEntry[] = [];
+
+  for (const line of lines) {
+    const field = line.match(/^([^\s#:-][^:]*):(?:\s+(.*))?$/);
+    const last = entries[entries.length - 1];
+
+    if (field) {
+      const value = (field[2] || "").trim();
+      entries.push({
+        key: field[1].trim(),
+        value: /^\[.*\]$/.test(value) ? value.slice(1, -1).split(",").map(unquote).filter(Boolean) : unquote(value),
+        quoted: /^(["']).*\1$/.test(value),
+        multiline: false,
+      });
+    } else if (last && /^\s*-\s+/.test(line)) {
+      const items = Array.isArray(last.value) ? last.value : last.value ? [last.value] : [];
+      last.value = [...items, unquote(line.replace(/^\s*-\s+/, ""))];
+      last.multiline = true;
+    } else if (last && line.trim() && !Array.isArray(last.value)) {
+      // Folded or nested values
+      last.value = `${last.value} ${line.trim()}`.trim();
+      last.multiline = true;
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Fields of a note's frontmatter, checking that it can be edited line by line safely.
+ * Throws a FrontmatterError rather than guessing what malformed frontmatter means.
+ */
+export function parseFrontmatter(content: string): FrontmatterEntry[] {
+  const lines = content.split("\n");
+  if (lines[0]?.trim() !== "---") {
+    return [];
+  }
+
+  const block = findFrontmatter(lines);
+  if (!block) {
+    throw new FrontmatterError(1, "the frontmatter is never closed with ---");
+  }
+
+  const keys = new Set<string>();
+  let hasField = false;
+
+  block.lines.forEach((line, index) => {
+    // +2: 1-based, after the opening delimiter
+    const lineNumber = index + 2;
+    if (!line.trim() || /^\s*#/.test(line)) {
+      return;
+    }
+    if (/^\t/.test(line)) {
+      throw new FrontmatterError(lineNumber, "YAML does not allow tabs for indentation");
+    }
+    if (/^(\s|-\s)/.test(line)) {
+      if (!hasField) {
+        throw new FrontmatterError(lineNumber, "indented value without a field");
+      }
+      return;
+    }
+
+    const field = line.match(/^([^\s#:-][^:]*):(?:\s+(.*))?$/);
+    if (!field) {
+      throw new FrontmatterError(lineNumber, `expected "key: value", found "${line.trim()}"`);
+    }
+    const key = field[1].trim();
+    if (keys.has(key)) {
+      throw new FrontmatterError(lineNumber, `"${key}" is defined twice`);
+    }
+    keys.add(key);
+    hasField = true;
+
+    const value = (field[2] || "").replace(/\s+#.*$/, "").trim();
+    if ((value.startsWith("[") && !value.endsWith("]")) || (value.startsWith("{") && !value.endsWith("}"))) {
+      throw new FrontmatterError(lineNumber, `the value of "${key}" is not closed`);
+    }
+    if (/^["']/.test(value) && (value.length < 2 || value[value.length - 1] !== value[0])) {
+      throw new FrontmatterError(lineNumber, `the quoted value of "${key}" is not closed`);
+    }
+  });
+
+  return frontmatterEntries(block.lines);
+}
@@ -0,0 +1,149 @@
+import { existsSync } from "fs";
+import { mkdir, readFile } from "fs/promises";
+import { basename, dirname, join, relative } from "path";
+import { ZKNote } from "./client";
+import { createNote, INBOX_DIR, zkFor } from "./zk";
+import { extractLinks, NoteLinkReference, replaceLinkAt } from "./markdown";
+import { createLinkResolver, retargetLink } from "./links";
+import { updateFileAtomic } from "./files";
+
+/**
+ * Notebook health checks: links whose target note does not exist.
+ */
+
+export interface BrokenLink extends NoteLinkReference {
+  /** Note containing the link */
+  source: ZKNote;
+}
+
+export interface BrokenLinkGroup {
+  source: ZKNote;
+  links: BrokenLink[];
+}
+
+/**
+ * Scan every note of a notebook for links that resolve to no note, grouped by source note
+ */
+export async function findBrokenLinks(notebookDir?: string): Promise<{ notes: ZKNote[]; groups: BrokenLinkGroup[] }> {
+  const notes = await zkFor(notebookDir).list({ sort: ["path"] });
+  const resolve = createLinkResolver(notes);
+  const groups: BrokenLinkGroup[] = [];
+
+  for (const source of notes) {
+    // Read from disk so that line numbers match the file, frontmatter included
+    const content = await readFile(source.absPath, "utf-8").catch(() => source.rawContent);
+    const links = extractLinks(content)
+      .filter((link) => !resolve(link, source.path))
+      .filter((link) => link.kind === "wiki" || !existsSync(join(dirname(source.absPath), link.target)))
+      .map((link) => ({ ...link, source }));
+
+    if (links.length > 0) {
+      groups.push({ source, links });
+    }
+  }
+
+  return { notes, groups };
+}
+
+/**
+ * Lowercase words of a link target or title, e.g. `dir/My-Note.md` -> `my note`
+ */
+function normalizeName(text: string): string {
+  return basename(text)
+    .replace(/\.md$/i, "")
+    .toLowerCase()
+    .replace(/[-_\s]+/g, " ")
+    .trim();
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Similarity between 0 and 1 of two names
+ */
+function similarity(a: string, b: string): number {
+  if (!a || !b) {
+    return 0;
+  }
+  if (a === b) {
+    return 1;
+  }
+  // A name contained in the other (e.g. a date prefix was added) is a strong hint
+  if (a.includes(b) || b.includes(a)) {
+    return 0.9 * (Math.min(a.length, b.length) / Math.max(a.length, b.length)) + 0.1;
+  }
+  return 1 - editDistance(a, b) / Math.max(a.length, b.length);
+}
+
+/** Minimum similarity for a note to be suggested as the new target */
+const SUGGESTION_THRESHOLD = 0.5;
+
+/**
+ * Existing notes whose file name or title is closest to a broken link's target
+ */
+export function suggestTargets(link: BrokenLink, notes: ZKNote[], limit = 5): ZKNote[] {
+  const names = [normalizeName(link.target), normalizeName(link.label || "")].filter(Boolean);
+
+  return notes
+    .map((note) => {
+      const candidates = [normalizeName(note.filenameStem), normalizeName(note.title)];
+      const score = Math.max(...names.flatMap((name) => candidates.map((candidate) => similarity(name, candidate))));
+      return { note, score };
+    })
+    .filter(({ score }) => score >= SUGGESTION_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ note }) => note);
+}
+
+/**
+ * Point a broken link to an existing note
+ */
+export async function repointLink(link: BrokenLink, target: ZKNote): Promise<void> {
+  const replacement = retargetLink(link, target, link.source.path);
+  await updateFileAtomic(link.source.absPath, (content) => replaceLinkAt(content, link, replacement));
+}
+
+/**
+ * Create the note a broken link points to, where the link expects it.
+ * Path-like targets (`dir/some-note`) keep their folder and file name; other
+ * wiki-links (`[[Some Title]]`) become a note with that title in the inbox.
+ */
+export async function createMissingNote(link: BrokenLink): Promise<string> {
+  const notebookDir = link.source.notebookDir;
+  const target = link.target.replace(/\.md$/i, "");
+  const isPath = link.kind === "markdown" || target.includes("/") || !/\s/.test(target);
+  const title = link.label || basename(target).replace(/[-_]+/g, " ");
+
+  if (!isPath) {
+    const result = await createNote({ title: target, directory: INBOX_DIR, notebookDir });
+    return result.path;
+  }
+
+  // Markdown links are relative to the linking note, wiki-links to the notebook root
+  const absolute = link.kind === "markdown" ? join(dirname(link.source.absPath), target) : join(notebookDir, target);
+  const directory = relative(notebookDir, dirname(absolute));
+  if (directory.startsWith("..")) {
+    throw new Error(`${link.target} points outside the notebook`);
+  }
+  await mkdir(dirname(absolute), { recursive: true });
+
+  const result = await createNote({
+    title,
+    group: "",
+    directory,
+    filename: `${basename(absolute)}.md`,
+    notebookDir,
+  });
+  return result.path;
+}
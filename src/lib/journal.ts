@@ -0,0 +1,240 @@
+import { getPreferenceValues } from "@raycast/api";
+import { existsSync } from "fs";
+import { mkdir, readdir } from "fs/promises";
+import { join, relative } from "path";
+import { createNote, ZK_NOTEBOOK_DIR } from "./zk";
+import { readNotebookConfig, listTemplates } from "./config";
+import { updateFileAtomic } from "./files";
+import { appendUnderHeading } from "./markdown";
+
+/**
+ * Daily journal notes: one note per day in the journal directory, named
+ * after the date in a configurable format (e.g. `journal/daily/2024-05-01.md`).
+ */
+
+export interface JournalSettings {
+  /** Notebook-relative journal directory */
+  directory: string;
+  /** File name format, without extension; may contain `/` for nested folders */
+  dateFormat: string;
+}
+
+/** Group names looked up in .zk/config.toml when no group is configured for the journal directory */
+const JOURNAL_GROUPS = ["journal", "daily", "journals"];
+
+/** Template files used when the notebook has no journal group */
+const JOURNAL_TEMPLATES = ["journal.md", "daily.md"];
+
+const MONTH_NAMES = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+/** Longest tokens first so that `MMMM` wins over `MM` */
+const TOKEN_PATTERN = /YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|mm/g;
+
+export function getJournalSettings(): JournalSettings {
+  const { journalDirectory, journalDateFormat } = getPreferenceValues<Preferences>();
+  return {
+    directory: (journalDirectory || "journal/daily").replace(/^\/+|\/+$/g, ""),
+    dateFormat: journalDateFormat || "YYYY-MM-DD",
+  };
+}
+
+/**
+ * Format a date with YYYY, YY, MMMM, MMM, MM, M, DD, D, dddd, ddd, HH and mm tokens
+ */
+export function formatDate(date: Date, format: string): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  const tokens: Record<string, string> = {
+    YYYY: String(date.getFullYear()),
+    YY: String(date.getFullYear()).slice(-2),
+    MMMM: MONTH_NAMES[date.getMonth()],
+    MMM: MONTH_NAMES[date.getMonth()].slice(0, 3),
+    MM: pad(date.getMonth() + 1),
+    M: String(date.getMonth() + 1),
+    DD: pad(date.getDate()),
+    D: String(date.getDate()),
+    dddd: DAY_NAMES[date.getDay()],
+    ddd: DAY_NAMES[date.getDay()].slice(0, 3),
+    HH: pad(date.getHours()),
+    mm: pad(date.getMinutes()),
+  };
+  return format.replace(TOKEN_PATTERN, (token) => tokens[token]);
+}
+
+/**
+ * Parse a string produced by formatDate back into a date, or null if it does not match
+ */
+export function parseDate(text: string, format: string): Date | null {
+  const fields: string[] = [];
+  let pattern = "";
+  let last = 0;
+
+  for (const match of format.matchAll(TOKEN_PATTERN)) {
+    pattern += format.slice(last, match.index).replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const token = match[0];
+    fields.push(token);
+    if (token === "MMMM" || token === "dddd") {
+      pattern += "([A-Za-z]+)";
+    } else if (token === "MMM" || token === "ddd") {
+      pattern += "([A-Za-z]{3})";
+    } else if (token === "YYYY") {
+      pattern += "(\\d{4})";
+    } else {
+      pattern += token.length === 2 ? "(\\d{2})" : "(\\d{1,2})";
+    }
+    last = (match.index || 0) + token.length;
+  }
+  pattern += format.slice(last).replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+  const match = text.match(new RegExp(`^${pattern}$`));
+  if (!match) {
+    return null;
+  }
+
+  let year = NaN;
+  let month = NaN;
+  let day = NaN;
+  fields.forEach((token, index) => {
+    const value = match[index + 1];
+    if (token === "YYYY") {
+      year = Number(value);
+    } else if (token === "YY") {
+      year = 2000 + Number(value);
+    } else if (token === "MMMM" || token === "MMM") {
+      month = MONTH_NAMES.findIndex((name) => name.toLowerCase().startsWith(value.toLowerCase()));
+    } else if (token === "MM" || token === "M") {
+      month = Number(value) - 1;
+    } else if (token === "DD" || token === "D") {
+      day = Number(value);
+    }
+  });
+
+  const date = new Date(year, month, day);
+  if (isNaN(date.getTime()) || date.getMonth() !== month || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Key identifying a day, e.g. `2024-05-01`
+ */
+export function dayKey(date: Date): string {
+  return formatDate(date, "YYYY-MM-DD");
+}
+
+/**
+ * Absolute path of the journal note of a day
+ */
+export function journalNotePath(date: Date, settings: JournalSettings = getJournalSettings()): string {
+  return join(ZK_NOTEBOOK_DIR, settings.directory, `${formatDate(date, settings.dateFormat)}.md`);
+}
+
+/**
+ * Days that have a journal note, keyed by dayKey
+ */
+export async function listJournalEntries(
+  settings: JournalSettings = getJournalSettings()
+): Promise<Map<string, string>> {
+  const root = join(ZK_NOTEBOOK_DIR, settings.directory);
+  const entries = new Map<string, string>();
+
+  const walk = async (dir: string) => {
+    const items = await readdir(dir, { withFileTypes: true }).catch(() => []);
+    for (const item of items) {
+      if (item.name.startsWith(".")) {
+        continue;
+      }
+      const path = join(dir, item.name);
+      if (item.isDirectory()) {
+        await walk(path);
+      } else if (item.name.endsWith(".md")) {
+        const date = parseDate(relative(root, path).replace(/\.md$/, ""), settings.dateFormat);
+        if (date) {
+          entries.set(dayKey(date), path);
+        }
+      }
+    }
+  };
+
+  await walk(root);
+  return entries;
+}
+
+/**
+ * Group and template used to create journal notes:
+ * the group configured for the journal directory, a group named like a journal,
+ * or failing that a journal template.
+ */
+async function journalCreateOptions(settings: JournalSettings): Promise<{ group: string; template?: string }> {
+  const config = await readNotebookConfig(ZK_NOTEBOOK_DIR);
+  const group =
+    config.groups.find((item) => item.paths.some((path) => path.replace(/\/+$/, "") === settings.directory)) ||
+    config.groups.find((item) => JOURNAL_GROUPS.includes(item.name.toLowerCase()));
+  if (group) {
+    return { group: group.name };
+  }
+
+  const templates = await listTemplates(ZK_NOTEBOOK_DIR);
+  const template = templates.find((item) => JOURNAL_TEMPLATES.includes(item.name.toLowerCase()));
+  return { group: "", template: template?.name };
+}
+
+export interface JournalNote {
+  path: string;
+  created: boolean;
+}
+
+/**
+ * Return the journal note of a day, creating it from the journal group or template if missing
+ */
+export async function ensureJournalNote(date: Date = new Date()): Promise<JournalNote> {
+  const settings = getJournalSettings();
+  const path = journalNotePath(date, settings);
+
+  if (existsSync(path)) {
+    return { path, created: false };
+  }
+
+  const { group, template } = await journalCreateOptions(settings);
+  const filename = `${formatDate(date, settings.dateFormat)}.md`;
+  // The date format may contain folders, create the note directly in the deepest one
+  const directory = relative(ZK_NOTEBOOK_DIR, join(ZK_NOTEBOOK_DIR, settings.directory, filename, ".."));
+  await mkdir(join(ZK_NOTEBOOK_DIR, directory), { recursive: true });
+
+  const result = await createNote({
+    title: dayKey(date),
+    group,
+    template,
+    directory,
+    filename: filename.split("/").pop(),
+    date: dayKey(date),
+  });
+
+  return { path: result.path, created: true };
+}
+
+/**
+ * Add a timestamped bullet (`- 14:30 text`) under a heading of the day's journal note,
+ * creating the note first if needed
+ */
+export async function appendToJournal(text: string, heading: string, date: Date = new Date()): Promise<JournalNote> {
+  const note = await ensureJournalNote(date);
+  const bullet = `- ${formatDate(new Date(), "HH:mm")} ${text.trim().replace(/\s*\n\s*/g, " ")}`;
+
+  await updateFileAtomic(note.path, (content) => appendUnderHeading(content, heading, bullet));
+  return note;
+}
@@ -0,0 +1,152 @@
+import { dirname, join, normalize, relative } from "path";
+import { ZKNote } from "./client";
+import { NotebookConfig, readNotebookConfig } from "./config";
+import { NoteLinkReference } from "./markdown";
+
+/**
+ * Links to notes, written like zk writes them.
+ *
+ * The `notebook` style follows `[format.markdown]` of `.zk/config.toml`:
+ * `link-format` (`markdown`, `wiki` or a custom template such as `[[{{path}}|{{title}}]]`),
+ * `link-encode-path` and `link-drop-extension`.
+ */
+
+export type LinkStyle = "notebook" | "wiki-id" | "wiki-title" | "markdown";
+
+export const LINK_STYLES: { style: LinkStyle; title: string }[] = [
+  { style: "notebook", title: "Notebook Format" },
+  { style: "wiki-id", title: "[[id]]" },
+  { style: "wiki-title", title: "[[title]]" },
+  { style: "markdown", title: "[title](path.md)" },
+];
+
+/** Templates zk uses for its built-in link formats */
+const LINK_TEMPLATES: Record<string, string> = {
+  markdown: "[{{title}}]({{path}})",
+  wiki: "[[{{path}}]]",
+};
+
+export interface LinkTemplateOptions {
+  /** Percent-encode the path segments */
+  encodePath: boolean;
+  /** Remove the `.md` extension from the path */
+  dropExtension: boolean;
+}
+
+/**
+ * Escape characters that would end the text of a markdown link early
+ */
+function escapeLinkText(text: string): string {
+  return text.replace(/([[\]\\])/g, "\\$1");
+}
+
+/**
+ * Fill `{{path}}`, `{{title}}`, `{{filename}}`, `{{id}}`, `{{abs-path}}` and `{{metadata.*}}`
+ * placeholders of a link template
+ */
+export function renderLinkTemplate(template: string, note: ZKNote, options: LinkTemplateOptions): string {
+  let path = options.dropExtension ? note.path.replace(/\.md$/, "") : note.path;
+  if (options.encodePath) {
+    path = path.split("/").map(encodeURIComponent).join("/");
+  }
+
+  const values: Record<string, string> = {
+    path,
+    "rel-path": path,
+    "abs-path": note.absPath,
+    title: note.title,
+    filename: note.filename,
+    "filename-stem": note.filenameStem,
+    id: note.filenameStem,
+  };
+
+  return template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (placeholder, name: string) => {
+    if (name.startsWith("metadata.")) {
+      const value = note.metadata[name.slice("metadata.".length)];
+      return value === undefined ? "" : String(value);
+    }
+    return values[name] ?? placeholder;
+  });
+}
+
+/**
+ * Format a link to a note; the notebook style needs the note's notebook configuration
+ */
+export function formatNoteLink(note: ZKNote, style: LinkStyle, config?: NotebookConfig): string {
+  switch (style) {
+    case "wiki-id":
+      return `[[${note.filenameStem}]]`;
+    case "wiki-title":
+      return `[[${note.title}]]`;
+    case "markdown":
+      return `[${escapeLinkText(note.title)}](${note.path.split("/").map(encodeURIComponent).join("/")})`;
+    default: {
+      const format = config?.linkFormat || "markdown";
+      return renderLinkTemplate(LINK_TEMPLATES[format] || format, note, {
+        encodePath: config?.linkEncodePath ?? format === "markdown",
+        dropExtension: config?.linkDropExtension ?? true,
+      });
+    }
+  }
+}
+
+/**
+ * Link to a note in the given style, reading the configuration of the note's notebook if needed
+ */
+export async function noteLink(note: ZKNote, style: LinkStyle = "notebook"): Promise<string> {
+  const config = style === "notebook" ? await readNotebookConfig(note.notebookDir) : undefined;
+  return formatNoteLink(note, style, config);
+}
+
+/**
+ * Look up the notes of a notebook the way zk resolves links:
+ * markdown links are paths relative to the linking note (or the notebook root),
+ * wiki-links match a path, a file name, an id (file name without extension) or a title.
+ */
+export function createLinkResolver(notes: ZKNote[]) {
+  const byPath = new Map<string, ZKNote>();
+  const byName = new Map<string, ZKNote>();
+
+  for (const note of notes) {
+    byPath.set(note.path.toLowerCase(), note);
+  }
+  for (const note of notes) {
+    for (const key of [note.path.replace(/\.md$/, ""), note.filename, note.filenameStem, note.title]) {
+      const name = key.toLowerCase();
+      if (name && !byName.has(name)) {
+        byName.set(name, note);
+      }
+    }
+  }
+
+  const lookupPath = (path: string) => {
+    const key = normalize(path).replace(/^\.\//, "").toLowerCase();
+    return byPath.get(key) || byPath.get(`${key}.md`);
+  };
+
+  /**
+   * The note a link points to, `sourcePath` being the notebook-relative path of the linking note
+   */
+  return (link: Pick<NoteLinkReference, "kind" | "target">, sourcePath: string): ZKNote | undefined => {
+    if (link.kind === "markdown") {
+      return lookupPath(join(dirname(sourcePath), link.target)) || lookupPath(link.target.replace(/^\/+/, ""));
+    }
+
+    const target = link.target.toLowerCase();
+    return byName.get(target) || lookupPath(target);
+  };
+}
+
+/**
+ * Point an existing link to another note, keeping its kind, label, `#anchor` and title
+ */
+export function retargetLink(link: NoteLinkReference, note: ZKNote, sourcePath: string): string {
+  const anchor = link.anchor || "";
+  if (link.kind === "wiki") {
+    const target = note.path.replace(/\.md$/, "");
+    return link.label ? `[[${target}${anchor}|${link.label}]]` : `[[${target}${anchor}]]`;
+  }
+
+  const path = relative(dirname(sourcePath), note.path).split("/").map(encodeURIComponent).join("/");
+  return `[${link.label ?? note.title}](${path}${anchor}${link.title || ""})`;
+}
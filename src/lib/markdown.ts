@@ -0,0 +1,243 @@
+/**
+ * Small helpers for editing markdown note content
+ */
+
+/**
+ * Level of an ATX heading line (`## Log` -> 2), or 0 for other lines
+ */
+export function headingLevel(line: string): number {
+  const match = line.match(/^(#{1,6})\s/);
+  return match ? match[1].length : 0;
+}
+
+/**
+ * Add a line at the end of the section under `heading` (e.g. `## Log`).
+ * The section ends at the next heading of the same or a higher level.
+ * When the heading does not exist, it is added at the end of the content.
+ */
+export function appendUnderHeading(content: string, heading: string, line: string): string {
+  const lines = content.split("\n");
+  const target = heading.trim();
+  const level = headingLevel(target) || 1;
+  const start = lines.findIndex((candidate) => candidate.trim() === target);
+
+  if (start < 0) {
+    const body = content.replace(/\s+$/, "");
+    return `${body}${body ? "\n\n" : ""}${target}\n\n${line}\n`;
+  }
+
+  let end = lines.length;
+  for (let i = start + 1; i < lines.length; i++) {
+    const candidateLevel = headingLevel(lines[i]);
+    if (candidateLevel > 0 && candidateLevel <= level) {
+      end = i;
+      break;
+    }
+  }
+
+  // Insert right after the last non-blank line of the section
+  let insertAt = end;
+  while (insertAt > start + 1 && !lines[insertAt - 1].trim()) {
+    insertAt--;
+  }
+
+  const before = lines.slice(0, insertAt);
+  const after = lines.slice(insertAt);
+  // Keep a blank line between the heading and the first entry
+  if (insertAt === start + 1) {
+    before.push("");
+  }
+  // ...and between the section and the next heading
+  if (end < lines.length && insertAt === end) {
+    after.unshift("");
+  }
+
+  const result = [...before, line, ...after].join("\n");
+  return result.endsWith("\n") ? result : `${result}\n`;
+}
+
+/**
+ * A link to another note found in markdown content
+ */
+export interface NoteLinkReference {
+  kind: "wiki" | "markdown";
+  /** The link as written, e.g. `[[note|label]]` or `[label](note.md)` */
+  text: string;
+  /** Target without its `#anchor`, e.g. `note` or `../dir/note.md` (URL-decoded) */
+  target: string;
+  /** `#anchor` part of the target, if any */
+  anchor?: string;
+  label?: string;
+  /** ` "title"` part of a markdown link as written, if any */
+  title?: string;
+  /** 1-based line number */
+  line: number;
+  /** 0-based position of `text` in its line */
+  column: number;
+}
+
+const WIKI_LINK_PATTERN = /\[\[([^\]|#\n]*)(#[^\]|\n]*)?(?:\|([^\]\n]*))?\]\]/g;
+const MARKDOWN_LINK_PATTERN = /(!?)\[([^\]\n]*)\]\(<?([^)\s>]+)>?(\s+"[^"]*")?\)/g;
+
+/** Links with a scheme (`https:`, `mailto:`, `zotero:`...) do not point to notes */
+const EXTERNAL_LINK_PATTERN = /^[a-z][a-z0-9+.-]*:/i;
+
+/** Only `.md` files and extension-less paths are notes, other targets are attachments */
+function isNoteTarget(target: string): boolean {
+  return /\.md$/i.test(target) || !/\.[A-Za-z0-9]+$/.test(target);
+}
+
+function decodeTarget(target: string): string {
+  try {
+    return decodeURI(target);
+  } catch {
+    return target;
+  }
+}
+
+/**
+ * Call `visit` for each line outside fenced code blocks, with inline code blanked out (columns are kept)
+ */
+function forEachProseLine(content: string, visit: (line: string, index: number) => void): void {
+  let fence: string | null = null;
+
+  content.split("\n").forEach((rawLine, index) => {
+    const fenceMatch = rawLine.match(/^\s*(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      if (!fence) {
+        fence = fenceMatch[1];
+      } else if (fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = null;
+      }
+      return;
+    }
+    if (!fence) {
+      visit(rawLine.replace(/`[^`]*`/g, (code) => " ".repeat(code.length)), index);
+    }
+  });
+}
+
+/**
+ * Find the wiki-links and internal markdown links of a note.
+ * Links in fenced code blocks and inline code are ignored, and so are images and
+ * embeds (`![[...]]`), external URLs, anchors within the note and links to non-markdown files.
+ */
+export function extractLinks(content: string): NoteLinkReference[] {
+  const links: NoteLinkReference[] = [];
+
+  forEachProseLine(content, (line, index) => {
+    for (const match of line.matchAll(WIKI_LINK_PATTERN)) {
+      const target = match[1].trim();
+      const isEmbed = line[(match.index || 0) - 1] === "!";
+      if (target && !isEmbed && isNoteTarget(target)) {
+        links.push({
+          kind: "wiki",
+          text: match[0],
+          target,
+          anchor: match[2] || undefined,
+          label: match[3]?.trim() || undefined,
+          line: index + 1,
+          column: match.index || 0,
+        });
+      }
+    }
+
+    for (const match of line.matchAll(MARKDOWN_LINK_PATTERN)) {
+      const href = match[3];
+      if (match[1] || href.startsWith("#") || EXTERNAL_LINK_PATTERN.test(href)) {
+        continue;
+      }
+      const target = decodeTarget(href.replace(/[#?].*$/, ""));
+      const anchor = href.match(/#.*$/)?.[0];
+      if (!isNoteTarget(target)) {
+        continue;
+      }
+      links.push({
+        kind: "markdown",
+        text: match[0],
+        target,
+        anchor,
+        label: match[2],
+        title: match[4],
+        line: index + 1,
+        column: match.index || 0,
+      });
+    }
+  });
+
+  return links;
+}
+
+/**
+ * A relative markdown link or image, to a note or to any other file
+ */
+export interface RelativeReference {
+  /** The link as written, e.g. `![alt](img/a.png "title")` */
+  text: string;
+  /** Target as written, e.g. `img/my%20a.png#x` */
+  href: string;
+  /** Position of `href` in `text` */
+  hrefOffset: number;
+  /** Whether the target is written in angle brackets (`<img/my a.png>`) */
+  bracketed: boolean;
+  /** Target without its `#anchor` or `?query` (URL-decoded) */
+  target: string;
+  /** 1-based line number */
+  line: number;
+  /** 0-based position of `text` in its line */
+  column: number;
+}
+
+const REFERENCE_PATTERN = /(!?\[[^\]\n]*\]\()(?:<([^>\n]+)>|([^)\s>]+))(?:\s+"[^"]*")?\)/g;
+
+/**
+ * Find the markdown links and images of a note whose target is a relative path,
+ * whatever the file type. Used to keep them pointing to the same files when the note moves.
+ */
+export function extractRelativeReferences(content: string): RelativeReference[] {
+  const references: RelativeReference[] = [];
+
+  forEachProseLine(content, (line, index) => {
+    for (const match of line.matchAll(REFERENCE_PATTERN)) {
+      const bracketed = match[2] !== undefined;
+      const href = bracketed ? match[2] : match[3];
+      if (href.startsWith("#") || href.startsWith("/") || EXTERNAL_LINK_PATTERN.test(href)) {
+        continue;
+      }
+      references.push({
+        text: match[0],
+        href,
+        hrefOffset: match[1].length + (bracketed ? 1 : 0),
+        bracketed,
+        target: decodeTarget(href.replace(/[#?].*$/, "")),
+        line: index + 1,
+        column: match.index || 0,
+      });
+    }
+  });
+
+  return references;
+}
+
+/**
+ * Replace the link found at `line`/`column` by `replacement`.
+ * Throws if the note changed and the link is no longer there.
+ */
+export function replaceLinkAt(
+  content: string,
+  link: Pick<NoteLinkReference, "text" | "line" | "column">,
+  replacement: string
+): string {
+  const lines = content.split("\n");
+  const line = lines[link.line - 1];
+  let column = line?.slice(link.column, link.column + link.text.length) === link.text ? link.column : -1;
+  if (column < 0 && line) {
+    column = line.indexOf(link.text);
+  }
+  if (column < 0) {
+    throw new Error(`The link ${link.text} is no longer on line ${link.line}`);
+  }
+
+  lines[link.line - 1] = `${line.slice(0, column)}${replacement}${line.slice(column + link.text.length)}`;
+  return lines.join("\n");
+}
@@ -0,0 +1,214 @@
+import { environment } from "@raycast/api";
+import { createHash } from "crypto";
+import { existsSync, readFileSync } from "fs";
+import { mkdir, readdir, stat } from "fs/promises";
+import { join } from "path";
+import { SortField, ZKNote } from "./client";
+import { ParsedQuery } from "./query";
+import { DEFAULT_SORT, zkFor, ZK_NOTEBOOK_DIR } from "./zk";
+import { writeFileAtomic } from "./files";
+
+/**
+ * On-disk cache of the note list of each notebook.
+ *
+ * The cache is read synchronously when a command opens so that results can be
+ * shown immediately, then refreshed in the background. It is considered stale
+ * as soon as any file or folder of the notebook has changed (see `fingerprint`).
+ * Note contents are left out to keep it small: full-text queries run live in zk.
+ */
+
+/** Bump when the cached note shape changes */
+const INDEX_VERSION = 3;
+
+export interface NoteIndex {
+  version: number;
+  notebookDir: string;
+  /** Sort order of `notes`, the default sort preference when the index was built */
+  sort: string;
+  fingerprint: string;
+  updatedAt: string;
+  notes: ZKNote[];
+}
+
+function indexPath(notebookDir: string): string {
+  const key = createHash("sha1").update(notebookDir).digest("hex").slice(0, 12);
+  return join(environment.supportPath, `note-index-${key}.json`);
+}
+
+/**
+ * Restore Date fields lost in JSON serialisation
+ */
+function reviveNote(note: ZKNote): ZKNote {
+  return {
+    ...note,
+    created: note.created ? new Date(note.created) : undefined,
+    modified: note.modified ? new Date(note.modified) : undefined,
+  };
+}
+
+/**
+ * The note without its content, as kept in the index
+ */
+function slimNote(note: ZKNote): ZKNote {
+  return { ...note, body: "", rawContent: "", snippets: [] };
+}
+
+/**
+ * Read the cached index, if any (synchronous, for first paint)
+ */
+export function loadNoteIndex(notebookDir: string = ZK_NOTEBOOK_DIR): NoteIndex | null {
+  const path = indexPath(notebookDir);
+  if (!existsSync(path)) {
+    return null;
+  }
+
+  try {
+    const index = JSON.parse(readFileSync(path, "utf-8")) as NoteIndex;
+    if (
+      index.version !== INDEX_VERSION ||
+      index.notebookDir !== notebookDir ||
+      index.sort !== DEFAULT_SORT ||
+      !Array.isArray(index.notes)
+    ) {
+      return null;
+    }
+    return { ...index, notes: index.notes.map(reviveNote) };
+  } catch {
+    // A corrupt cache is simply rebuilt
+    return null;
+  }
+}
+
+async function saveNoteIndex(index: NoteIndex): Promise<void> {
+  await mkdir(environment.supportPath, { recursive: true });
+  await writeFileAtomic(indexPath(index.notebookDir), JSON.stringify(index));
+}
+
+/**
+ * Summarise the notebook's file mtimes.
+ * Folder mtimes are included so that renames and deletions are noticed too.
+ */
+async function fingerprint(dir: string): Promise<string> {
+  let count = 0;
+  let latest = 0;
+
+  const walk = async (current: string) => {
+    const stats = await stat(current);
+    latest = Math.max(latest, stats.mtimeMs);
+
+    const entries = await readdir(current, { withFileTypes: true });
+    for (const entry of entries) {
+      // Skip .zk (zk's own database changes on every run), .git, etc.
+      if (entry.name.startsWith(".")) {
+        continue;
+      }
+      const path = join(current, entry.name);
+      if (entry.isDirectory()) {
+        await walk(path);
+      } else if (entry.name.endsWith(".md")) {
+        count++;
+        latest = Math.max(latest, (await stat(path)).mtimeMs);
+      }
+    }
+  };
+
+  await walk(dir);
+  return `${count}:${Math.floor(latest)}`;
+}
+
+export interface RefreshOptions {
+  /** Rebuild even if the notebook looks unchanged */
+  force?: boolean;
+  /** Root directory of the notebook (default: the main notebook) */
+  notebookDir?: string;
+  /** The index already loaded with loadNoteIndex, to avoid reading it again */
+  cached?: NoteIndex | null;
+}
+
+/**
+ * Return an up-to-date index, rebuilding it from zk when the notebook changed
+ */
+export async function refreshNoteIndex(options: RefreshOptions = {}): Promise<NoteIndex> {
+  const notebookDir = options.notebookDir || ZK_NOTEBOOK_DIR;
+  const current = await fingerprint(notebookDir);
+  const cached = options.cached !== undefined ? options.cached : loadNoteIndex(notebookDir);
+
+  if (!options.force && cached && cached.fingerprint === current) {
+    return cached;
+  }
+
+  const notes = await zkFor(notebookDir).list({ sort: [DEFAULT_SORT] });
+  const index: NoteIndex = {
+    version: INDEX_VERSION,
+    notebookDir,
+    sort: DEFAULT_SORT,
+    fingerprint: current,
+    updatedAt: new Date().toISOString(),
+    notes: notes.map(slimNote),
+  };
+
+  await saveNoteIndex(index);
+  return index;
+}
+
+/**
+ * Sort notes like `zk list --sort`: dates and word counts descending, text ascending.
+ * Used to merge the notes of several notebooks.
+ */
+export function sortNotes(notes: ZKNote[], sort: SortField = DEFAULT_SORT): ZKNote[] {
+  const sorted = [...notes];
+  switch (sort) {
+    case "created":
+    case "modified":
+      return sorted.sort((a, b) => (b[sort]?.getTime() || 0) - (a[sort]?.getTime() || 0));
+    case "word-count":
+      return sorted.sort((a, b) => b.wordCount - a.wordCount);
+    case "title":
+    case "path":
+      return sorted.sort((a, b) => a[sort].localeCompare(b[sort]));
+    default:
+      return sorted;
+  }
+}
+
+/**
+ * Check whether a query can be answered from the index alone.
+ * Link filters need zk's link database, free text the note contents, and date
+ * filters zk's own reading of `@week`, `last month`...: they always run live.
+ */
+export function canFilterInMemory(query: ParsedQuery): boolean {
+  return query.links.length === 0 && !query.orphan && !query.text && query.dates.length === 0;
+}
+
+/**
+ * Tag comparison, case-insensitive with `*` wildcards like zk
+ */
+function matchesTag(noteTags: string[], pattern: string): boolean {
+  const lower = pattern.toLowerCase();
+  if (!lower.includes("*")) {
+    return noteTags.some((tag) => tag.toLowerCase() === lower);
+  }
+  const regex = new RegExp(`^${lower.split("*").map(escapeRegExp).join(".*")}$`);
+  return noteTags.some((tag) => regex.test(tag.toLowerCase()));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Apply the tag filters of a query to indexed notes, keeping their order unless it asks for `@recent`
+ */
+export function filterNotes(notes: ZKNote[], query: ParsedQuery): ZKNote[] {
+  const matches = notes.filter((note) => {
+    if (query.tagless && note.tags.length > 0) {
+      return false;
+    }
+    if (!query.tags.every((tag) => matchesTag(note.tags, tag))) {
+      return false;
+    }
+    return !query.excludedTags.some((tag) => matchesTag(note.tags, tag));
+  });
+
+  return query.sortByModified ? sortNotes(matches, "modified") : matches;
+}
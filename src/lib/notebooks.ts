@@ -0,0 +1,62 @@
+import { getPreferenceValues } from "@raycast/api";
+import { basename } from "path";
+import { expandHome, ZK_NOTEBOOK_DIR } from "./zk";
+
+/**
+ * Notebooks the extension works with: the main **Notebook Directory** plus the
+ * ones listed in **Other Notebooks** as `Name=path` entries, e.g.
+ * `Work=~/work/notes, Personal=~/notes`.
+ */
+
+export interface Notebook {
+  name: string;
+  /** Absolute root directory, also used as the notebook's id */
+  dir: string;
+}
+
+/** Dropdown value selecting every notebook at once */
+export const ALL_NOTEBOOKS = "all";
+
+/**
+ * Parse the Other Notebooks preference; entries without a name are named after their folder
+ */
+export function parseNotebookList(value: string): Notebook[] {
+  return value
+    .split(/[,\n;]/)
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf("=");
+      const path = separator < 0 ? entry : entry.slice(separator + 1).trim();
+      const dir = expandHome(path).replace(/\/+$/, "");
+      const name = separator < 0 ? "" : entry.slice(0, separator).trim();
+      return { name: name || basename(dir), dir };
+    });
+}
+
+/**
+ * Every configured notebook, the main one first
+ */
+export function listNotebooks(): Notebook[] {
+  const { otherNotebooks } = getPreferenceValues<Preferences>();
+  const notebooks = [{ name: basename(ZK_NOTEBOOK_DIR), dir: ZK_NOTEBOOK_DIR }, ...parseNotebookList(otherNotebooks || "")];
+  return notebooks.filter((notebook, index) => notebooks.findIndex((other) => other.dir === notebook.dir) === index);
+}
+
+/**
+ * The notebook with the given root directory, or the main notebook
+ */
+export function getNotebook(dir?: string): Notebook {
+  const notebooks = listNotebooks();
+  return notebooks.find((notebook) => notebook.dir === dir) || notebooks[0];
+}
+
+/**
+ * Root directories selected by a notebook dropdown value (a directory or ALL_NOTEBOOKS)
+ */
+export function selectedNotebookDirs(value: string): string[] {
+  if (value === ALL_NOTEBOOKS) {
+    return listNotebooks().map((notebook) => notebook.dir);
+  }
+  return [getNotebook(value).dir];
+}
@@ -0,0 +1,39 @@
+import { LocalStorage } from "@raycast/api";
+
+/**
+ * Notes pinned to the top of the search list, by absolute path, kept in LocalStorage
+ */
+
+const STORAGE_KEY = "pinned-notes";
+
+export async function loadPins(): Promise<string[]> {
+  const stored = await LocalStorage.getItem<string>(STORAGE_KEY);
+  try {
+    const pins = stored ? JSON.parse(stored) : [];
+    return Array.isArray(pins) ? pins : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Pin or unpin a note; new pins go last
+ */
+export async function setPinned(noteId: string, pinned: boolean): Promise<string[]> {
+  const pins = (await loadPins()).filter((id) => id !== noteId);
+  if (pinned) {
+    pins.push(noteId);
+  }
+  await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(pins));
+  return pins;
+}
+
+/**
+ * Keep a note pinned after it was renamed or moved
+ */
+export async function renamePin(oldId: string, newId: string): Promise<void> {
+  const pins = await loadPins();
+  if (pins.includes(oldId)) {
+    await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(pins.map((id) => (id === oldId ? newId : id))));
+  }
+}
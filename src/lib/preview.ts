@@ -0,0 +1,120 @@
+import { existsSync } from "fs";
+import { dirname, isAbsolute, join } from "path";
+import { pathToFileURL } from "url";
+import { ZKNote } from "./client";
+import { extractLinks, replaceLinkAt } from "./markdown";
+import { findFrontmatter, FrontmatterEntry, frontmatterEntries } from "./frontmatter";
+import { createLinkResolver } from "./links";
+
+/**
+ * Turning a note file into markdown Raycast's Detail view can render: the frontmatter
+ * is taken out, links to other notes are resolved and image paths made absolute.
+ */
+
+export interface NotePreviewContent {
+  markdown: string;
+  /** Top-level fields of the frontmatter, in order */
+  frontmatter: FrontmatterEntry[];
+  /** Notes the links point to, in order of first appearance */
+  linkedNotes: ZKNote[];
+  /** Links whose note could not be found */
+  brokenLinks: string[];
+}
+
+const IMAGE_PATTERN = /!\[([^\]\n]*)\]\(<?([^)\s>]+)>?(?:\s+"[^"]*")?\)/g;
+const WIKI_EMBED_PATTERN = /!\[\[([^\]|\n]+)(?:\|([^\]\n]*))?\]\]/g;
+const EXTERNAL_PATTERN = /^[a-z][a-z0-9+.-]*:/i;
+
+/**
+ * Absolute file URL of an image, looked up next to the note first, then at the notebook root
+ */
+function resolveImage(path: string, note: ZKNote): string | undefined {
+  if (EXTERNAL_PATTERN.test(path)) {
+    return undefined;
+  }
+
+  let decoded = path;
+  try {
+    decoded = decodeURI(path);
+  } catch {
+    // Keep the path as written
+  }
+
+  const candidates = isAbsolute(decoded)
+    ? [join(note.notebookDir, decoded), decoded]
+    : [join(dirname(note.absPath), decoded), join(note.notebookDir, decoded)];
+  const found = candidates.find((candidate) => existsSync(candidate));
+  return found ? pathToFileURL(found).href : undefined;
+}
+
+/**
+ * Point relative images (`![alt](img.png)` and `![[img.png]]`) to their files, outside code blocks
+ */
+function resolveImages(markdown: string, note: ZKNote): string {
+  let fence: string | null = null;
+
+  return markdown
+    .split("\n")
+    .map((line) => {
+      const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/);
+      if (fenceMatch) {
+        fence = !fence ? fenceMatch[1] : fenceMatch[1][0] === fence[0] ? null : fence;
+        return line;
+      }
+      if (fence) {
+        return line;
+      }
+
+      return line
+        .replace(WIKI_EMBED_PATTERN, (embed, target: string, alt?: string) => {
+          const url = resolveImage(target.trim(), note);
+          return url ? `![${alt || target.trim()}](${url})` : embed;
+        })
+        .replace(IMAGE_PATTERN, (image, alt: string, target: string) => {
+          const url = resolveImage(target, note);
+          return url ? `![${alt}](${url})` : image;
+        });
+    })
+    .join("\n");
+}
+
+/**
+ * Prepare a note's content for preview, resolving links against the given notes of its notebook
+ */
+export function renderNotePreview(content: string, note: ZKNote, notes: ZKNote[]): NotePreviewContent {
+  const contentLines = content.split("\n");
+  const block = findFrontmatter(contentLines);
+  const body = block ? contentLines.slice(block.end + 1).join("\n") : content;
+  const resolve = createLinkResolver(notes);
+
+  const targets: ZKNote[] = [];
+  const brokenLinks: string[] = [];
+
+  // Links become bold text, the notes they point to are offered as actions instead.
+  // Replacing from the end keeps the positions of earlier links valid.
+  // Embeds that are not images (`![[note]]`) are not links and are left as written
+  let markdown = resolveImages(body, note);
+  const links = extractLinks(markdown).sort((a, b) => b.line - a.line || b.column - a.column);
+  for (const link of links) {
+    const target = resolve(link, note.path);
+    const label = link.label || (target ? target.title : link.target);
+    if (target) {
+      markdown = replaceLinkAt(markdown, link, `**${label}**`);
+      targets.unshift(target);
+    } else {
+      markdown = replaceLinkAt(markdown, link, `${label} ⚠︎`);
+      brokenLinks.unshift(link.text);
+    }
+  }
+
+  const linkedNotes = targets.filter(
+    (target, index) => target.id !== note.id && targets.findIndex((item) => item.id === target.id) === index
+  );
+
+  return {
+    markdown,
+    frontmatter: block ? frontmatterEntries(block.lines) : [],
+    linkedNotes,
+    brokenLinks,
+  };
+}
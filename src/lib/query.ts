@@ -0,0 +1,440 @@
+/**
+ * Query language for the Search ZK Notes bar.
+ *
+ * A query is any mix of the following terms, separated by whitespace:
+ * - #tag: notes tagged with `tag`
+ * - -#tag: notes NOT tagged with `tag`
+ * - @today, @yesterday, @week, @month, @recent: date shortcuts
+ * - @created:DATE, @modified:DATE, @after:DATE, @before:DATE: date filters
+ * - >note: notes linked by the given note (outgoing links)
+ * - <note: notes linking to the given note (backlinks)
+ * - ~note: notes related to the given note
+ * - !orphan, !tagless: special filters
+ * - anything else: free text, matched against the note contents
+ *
+ * Values containing spaces can be quoted: `>"My Note"`, `@created:"last tuesday"`.
+ * Unquoted dates made of several words (`@created:2 days ago`) are also understood.
+ */
+
+export type LinkMode = "linked-by" | "link-to" | "related";
+
+export type DateField = "created" | "modified";
+
+export type DateOperator = "on" | "before" | "after";
+
+export interface DateFilter {
+  field: DateField;
+  op: DateOperator;
+  value: string;
+}
+
+export interface LinkFilter {
+  mode: LinkMode;
+  note: string;
+}
+
+export interface ParsedQuery {
+  text: string;
+  tags: string[];
+  excludedTags: string[];
+  dates: DateFilter[];
+  links: LinkFilter[];
+  orphan: boolean;
+  tagless: boolean;
+  sortByModified: boolean;
+}
+
+export interface QueryError {
+  token: string;
+  message: string;
+}
+
+export interface ParseResult {
+  query: ParsedQuery;
+  errors: QueryError[];
+}
+
+interface Token {
+  value: string;
+  quoted: boolean;
+}
+
+const OPERATOR_PATTERN = /^(-?#|[@><~!])/;
+
+const LINK_PREFIXES: Record<string, LinkMode> = {
+  ">": "linked-by",
+  "<": "link-to",
+  "~": "related",
+};
+
+const WEEKDAYS = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"];
+const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+const UNITS = ["minute", "hour", "day", "week", "month", "year"];
+
+/** Longest run of extra words a multi-word date may consume */
+const MAX_DATE_WORDS = 4;
+
+/**
+ * Create an empty query (matches every note)
+ */
+export function emptyQuery(): ParsedQuery {
+  return {
+    text: "",
+    tags: [],
+    excludedTags: [],
+    dates: [],
+    links: [],
+    orphan: false,
+    tagless: false,
+    sortByModified: false,
+  };
+}
+
+/**
+ * Check whether a parsed query has no filters at all
+ */
+export function isEmptyQuery(query: ParsedQuery): boolean {
+  return (
+    !query.text &&
+    query.tags.length === 0 &&
+    query.excludedTags.length === 0 &&
+    query.dates.length === 0 &&
+    query.links.length === 0 &&
+    !query.orphan &&
+    !query.tagless
+  );
+}
+
+/**
+ * Split a query into whitespace separated tokens, honouring double quotes
+ */
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let current = "";
+  let quoted = false;
+  let inQuotes = false;
+  let started = false;
+
+  for (const char of input) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+      quoted = true;
+      started = true;
+    } else if (/\s/.test(char) && !inQuotes) {
+      if (started) {
+        tokens.push({ value: current, quoted });
+      }
+      current = "";
+      quoted = false;
+      started = false;
+    } else {
+      current += char;
+      started = true;
+    }
+  }
+
+  if (started) {
+    tokens.push({ value: current, quoted });
+  }
+
+  return tokens;
+}
+
+/**
+ * Check whether a token starts a filter term rather than free text
+ */
+function isOperatorToken(token: Token): boolean {
+  return !token.quoted && OPERATOR_PATTERN.test(token.value);
+}
+
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/** Weeks start on Monday */
+function startOfWeek(date: Date): Date {
+  return addDays(startOfDay(date), -((date.getDay() + 6) % 7));
+}
+
+function dayRange(date: Date): DateRange {
+  const start = startOfDay(date);
+  return { start, end: addDays(start, 1) };
+}
+
+function monthRange(year: number, month: number): DateRange {
+  return { start: new Date(year, month, 1), end: new Date(year, month + 1, 1) };
+}
+
+/**
+ * Resolve a date expression to the period it designates, e.g.
+ * `last tuesday` -> that whole day, `this month` -> the current month.
+ * Supports ISO dates and the natural language forms zk accepts.
+ * Returns null for expressions that are not understood.
+ */
+export function resolveDateRange(value: string, now: Date = new Date()): DateRange | null {
+  const expr = value.trim().toLowerCase().replace(/\s+/g, " ");
+
+  const iso = expr.match(/^(\d{4})-(\d{2})(?:-(\d{2}))?$/);
+  if (iso) {
+    const year = Number(iso[1]);
+    const month = Number(iso[2]) - 1;
+    const day = iso[3] ? Number(iso[3]) : 1;
+    const date = new Date(year, month, day);
+    if (date.getMonth() !== month || date.getDate() !== day) {
+      return null;
+    }
+    return iso[3] ? dayRange(date) : monthRange(year, month);
+  }
+
+  switch (expr) {
+    case "today":
+      return dayRange(now);
+    case "yesterday":
+      return dayRange(addDays(now, -1));
+    case "tomorrow":
+      return dayRange(addDays(now, 1));
+    case "now":
+      return { start: now, end: new Date(now.getTime() + 1) };
+  }
+
+  const weekday = expr.match(new RegExp(`^(?:(last|this|next) )?(${WEEKDAYS.join("|")})$`));
+  if (weekday) {
+    const target = WEEKDAYS.indexOf(weekday[2]);
+    const today = (now.getDay() + 6) % 7;
+    if (weekday[1] === "this") {
+      return dayRange(addDays(startOfWeek(now), target));
+    }
+    if (weekday[1] === "next") {
+      return dayRange(addDays(now, (target - today + 7) % 7 || 7));
+    }
+    // "last monday" is the most recent Monday before today, a bare "monday" may be today
+    const back = (today - target + 7) % 7;
+    return dayRange(addDays(now, -(weekday[1] === "last" ? back || 7 : back)));
+  }
+
+  const period = expr.match(/^(last|this|next) (week|month|year)$/);
+  if (period) {
+    const offset = period[1] === "last" ? -1 : period[1] === "next" ? 1 : 0;
+    if (period[2] === "week") {
+      const start = addDays(startOfWeek(now), offset * 7);
+      return { start, end: addDays(start, 7) };
+    }
+    if (period[2] === "month") {
+      return monthRange(now.getFullYear(), now.getMonth() + offset);
+    }
+    const year = now.getFullYear() + offset;
+    return { start: new Date(year, 0, 1), end: new Date(year + 1, 0, 1) };
+  }
+
+  const ago = expr.match(new RegExp(`^(\\d+|a|an) (${UNITS.join("|")})s? ago$`));
+  if (ago) {
+    const amount = /^\d+$/.test(ago[1]) ? Number(ago[1]) : 1;
+    const unit = ago[2];
+    if (unit === "minute" || unit === "hour") {
+      const start = new Date(now.getTime() - amount * (unit === "minute" ? 60 : 3600) * 1000);
+      return { start, end: now };
+    }
+    const date = new Date(now);
+    if (unit === "day") {
+      date.setTime(now.getTime() - amount * DAY_MS);
+    } else if (unit === "week") {
+      date.setTime(now.getTime() - amount * 7 * DAY_MS);
+    } else if (unit === "month") {
+      date.setMonth(date.getMonth() - amount);
+    } else {
+      date.setFullYear(date.getFullYear() - amount);
+    }
+    return dayRange(date);
+  }
+
+  const monthNames = `${MONTHS.join("|")}|${MONTHS.map((m) => m.slice(0, 3)).join("|")}`;
+  const named = expr.match(new RegExp(`^(${monthNames})(?: (\\d{1,2}))?(?: (\\d{4}))?$`));
+  if (named) {
+    const month = MONTHS.findIndex((m) => m.startsWith(named[1]));
+    const year = named[3] ? Number(named[3]) : now.getFullYear();
+    if (!named[2]) {
+      return monthRange(year, month);
+    }
+    const day = Number(named[2]);
+    const date = new Date(year, month, day);
+    return date.getDate() === day ? dayRange(date) : null;
+  }
+
+  return null;
+}
+
+/**
+ * Check whether a date expression is understood by zk
+ * (ISO dates and the natural language forms zk accepts)
+ */
+export function isValidDate(value: string): boolean {
+  return resolveDateRange(value) !== null;
+}
+
+/**
+ * Turn a `@...` date term (without the `@`) into a date filter or sort option.
+ * Returns null for unrecognised or invalid dates.
+ */
+export function parseDateTerm(term: string): DateFilter | "sort" | null {
+  const lower = term.toLowerCase().trim();
+
+  if (lower === "today" || lower === "yesterday") {
+    return { field: "created", op: "on", value: lower };
+  }
+  if (lower === "week" || lower === "this week") {
+    return { field: "created", op: "after", value: "last monday" };
+  }
+  if (lower === "month" || lower === "this month") {
+    return { field: "created", op: "after", value: "last month" };
+  }
+  if (lower === "recent" || lower === "modified") {
+    return "sort";
+  }
+
+  const prefixed: Array<[string, DateField, DateOperator]> = [
+    ["created:", "created", "on"],
+    ["modified:", "modified", "on"],
+    ["after:", "created", "after"],
+    ["before:", "created", "before"],
+  ];
+
+  for (const [prefix, field, op] of prefixed) {
+    if (lower.startsWith(prefix)) {
+      const value = term.trim().slice(prefix.length).trim();
+      return isValidDate(value) ? { field, op, value } : null;
+    }
+  }
+
+  // Try to use as a direct creation date
+  return isValidDate(term) ? { field: "created", op: "on", value: term.trim() } : null;
+}
+
+/**
+ * Parse a date term, greedily consuming following plain words for
+ * multi-word dates such as `@created:last tuesday`.
+ * Returns the filter and how many extra tokens were consumed.
+ */
+function parseDateTokens(
+  tokens: Token[],
+  index: number,
+): { result: DateFilter | "sort" | null; consumed: number } {
+  const first = tokens[index];
+  const firstResult = parseDateTerm(first.value.slice(1));
+  if (firstResult || first.quoted) {
+    return { result: firstResult, consumed: 0 };
+  }
+
+  let term = first.value.slice(1);
+  for (let extra = 1; extra <= MAX_DATE_WORDS && index + extra < tokens.length; extra++) {
+    const next = tokens[index + extra];
+    if (isOperatorToken(next)) {
+      break;
+    }
+    term = `${term} ${next.value}`;
+    const result = parseDateTerm(term);
+    if (result) {
+      return { result, consumed: extra };
+    }
+  }
+
+  return { result: null, consumed: 0 };
+}
+
+/**
+ * Parse a search bar query into filters.
+ * Incomplete terms (a lone `#`, `@created:` with no date yet) are ignored
+ * so that the query stays valid while it is being typed.
+ */
+export function parseQuery(input: string): ParseResult {
+  const query = emptyQuery();
+  const errors: QueryError[] = [];
+  const words: string[] = [];
+  const tokens = tokenize(input);
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const { value } = token;
+
+    if (token.quoted && !OPERATOR_PATTERN.test(value)) {
+      words.push(value.includes(" ") ? `"${value}"` : value);
+      continue;
+    }
+
+    if (value.startsWith("-#") || value.startsWith("#")) {
+      const exclude = value.startsWith("-");
+      const tag = value.slice(exclude ? 2 : 1).trim();
+      if (tag) {
+        (exclude ? query.excludedTags : query.tags).push(tag);
+      }
+      continue;
+    }
+
+    if (value.startsWith("@")) {
+      const term = value.slice(1);
+      if (!term || /^[a-z-]+:$/i.test(term)) {
+        continue;
+      }
+      const { result, consumed } = parseDateTokens(tokens, i);
+      if (result === "sort") {
+        query.sortByModified = true;
+      } else if (result) {
+        query.dates.push(result);
+      } else {
+        errors.push({ token: value, message: `Invalid date "${term.replace(/^[a-z-]+:/i, "")}"` });
+      }
+      i += consumed;
+      continue;
+    }
+
+    const linkMode = LINK_PREFIXES[value.charAt(0)];
+    if (linkMode) {
+      const note = value.slice(1).trim();
+      if (note) {
+        query.links.push({ mode: linkMode, note });
+      }
+      continue;
+    }
+
+    if (value.startsWith("!")) {
+      const command = value.slice(1).toLowerCase();
+      if (command === "orphan" || command === "orphans") {
+        query.orphan = true;
+      } else if (command === "tagless") {
+        query.tagless = true;
+      } else if (command) {
+        errors.push({ token: value, message: `Unknown command "!${command}" (try !orphan or !tagless)` });
+      }
+      continue;
+    }
+
+    words.push(value);
+  }
+
+  query.text = words.join(" ");
+
+  return { query, errors };
+}
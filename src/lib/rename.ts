@@ -0,0 +1,335 @@
+import { environment } from "@raycast/api";
+import { existsSync } from "fs";
+import { mkdir, readFile, rename } from "fs/promises";
+import { basename, dirname, join, relative } from "path";
+import { ZKNote } from "./client";
+import { toDashCase, zkFor } from "./zk";
+import { extractLinks, extractRelativeReferences, NoteLinkReference, replaceLinkAt } from "./markdown";
+import { createLinkResolver } from "./links";
+import { updateFileAtomic, writeFileAtomic } from "./files";
+import { yamlScalar } from "./frontmatter";
+import { renamePin } from "./pins";
+
+/**
+ * Renaming or moving a note (title, file name and/or folder) together with every
+ * link pointing to it.
+ *
+ * A rename is planned first, so that the affected files can be previewed, then
+ * applied. The last applied rename is kept on disk and can be undone as long as
+ * the files it changed have not been edited since.
+ */
+
+export interface RenameRequest {
+  /** New title; the current one is kept when empty */
+  title?: string;
+  /** New file name; the current one is kept when empty */
+  filename?: string;
+  /** New notebook-relative folder; the current one is kept when undefined */
+  directory?: string;
+  /** Further change to the note's own content, e.g. adding a tag */
+  transform?: (content: string) => string;
+}
+
+export interface LineChange {
+  line: number;
+  before: string;
+  after: string;
+}
+
+export interface FileEdit {
+  /** Absolute path, before the rename */
+  path: string;
+  /** Notebook-relative path, for display */
+  displayPath: string;
+  before: string;
+  after: string;
+  changes: LineChange[];
+}
+
+export interface RenamePlan {
+  note: ZKNote;
+  title: string;
+  /** Absolute paths of the note file, before and after */
+  oldPath: string;
+  newPath: string;
+  /** The note's own title change, then every note linking to it */
+  edits: FileEdit[];
+}
+
+export interface RenameRecord {
+  oldPath: string;
+  newPath: string;
+  files: { path: string; before: string; after: string }[];
+  appliedAt: string;
+}
+
+function lastRenamePath(): string {
+  return join(environment.supportPath, "last-rename.json");
+}
+
+/**
+ * Write `title` into the `title:` frontmatter field and a matching `# heading`
+ */
+function retitleContent(content: string, oldTitle: string, title: string): string {
+  const lines = content.split("\n");
+  let inFrontmatter = lines[0]?.trim() === "---";
+  let headingDone = false;
+
+  for (let i = inFrontmatter ? 1 : 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (inFrontmatter) {
+      if (line.trim() === "---") {
+        inFrontmatter = false;
+      } else if (/^title\s*:/.test(line)) {
+        lines[i] = `title: ${yamlScalar(title)}`;
+      }
+      continue;
+    }
+    if (!headingDone && /^#\s/.test(line)) {
+      headingDone = true;
+      if (line.replace(/^#\s+/, "").trim() === oldTitle) {
+        lines[i] = `# ${title}`;
+      }
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * The link rewritten to point to the renamed note, in the same form as before
+ */
+function rewriteLink(link: NoteLinkReference, plan: RenamePlan, sourcePath: string): string {
+  const { note } = plan;
+  const newRelative = relative(note.notebookDir, plan.newPath);
+  const newStem = basename(plan.newPath).replace(/\.md$/, "");
+  const label = link.label && link.label === note.title ? plan.title : link.label;
+  const anchor = link.anchor || "";
+
+  if (link.kind === "markdown") {
+    return markdownLink(label ?? plan.title, relative(dirname(sourcePath), newRelative), link, anchor);
+  }
+
+  const target = link.target.toLowerCase();
+  let newTarget = link.target;
+  if (target === note.title.toLowerCase()) {
+    newTarget = plan.title;
+  } else if (target === note.path.toLowerCase()) {
+    newTarget = newRelative;
+  } else if (target === note.path.replace(/\.md$/, "").toLowerCase()) {
+    newTarget = newRelative.replace(/\.md$/, "");
+  } else if (target === note.filename.toLowerCase()) {
+    newTarget = basename(plan.newPath);
+  } else if (target === note.filenameStem.toLowerCase()) {
+    newTarget = newStem;
+  }
+
+  return label ? `[[${newTarget}${anchor}|${label}]]` : `[[${newTarget}${anchor}]]`;
+}
+
+function encodePath(path: string): string {
+  return path.split("/").map(encodeURIComponent).join("/");
+}
+
+/**
+ * A markdown link to `path`, extension-less if the original link was, keeping its `"title"`
+ */
+function markdownLink(label: string, path: string, original: NoteLinkReference, anchor: string): string {
+  const target = /\.md$/i.test(original.target) ? path : path.replace(/\.md$/, "");
+  return `[${label}](${encodePath(target)}${anchor}${original.title || ""})`;
+}
+
+/**
+ * Keep the relative links and images of a moved note pointing to the same files
+ */
+function rebaseRelativeLinks(content: string, oldPath: string, newPath: string): string {
+  if (dirname(oldPath) === dirname(newPath)) {
+    return content;
+  }
+
+  return extractRelativeReferences(content)
+    .sort((a, b) => b.line - a.line || b.column - a.column)
+    .reduce((updated, reference) => {
+      const target = join(dirname(oldPath), reference.target);
+      if (!existsSync(target) && !existsSync(`${target}.md`)) {
+        // Broken already, or relative to the notebook root: leave it alone
+        return updated;
+      }
+
+      const path = relative(dirname(newPath), target);
+      const { text, href, hrefOffset, bracketed } = reference;
+      const suffix = href.match(/[#?].*$/)?.[0] || "";
+      // Written as before: as is in angle brackets, URL-encoded if it was or has to be
+      const encode = !bracketed && (href.slice(0, href.length - suffix.length) !== reference.target || /\s/.test(path));
+      const newHref = `${encode ? encodePath(path) : path}${suffix}`;
+      const replacement = `${text.slice(0, hrefOffset)}${newHref}${text.slice(hrefOffset + href.length)}`;
+      return replaceLinkAt(updated, reference, replacement);
+    }, content);
+}
+
+/**
+ * Work out every change needed to rename a note, without touching any file
+ */
+export async function planRename(note: ZKNote, request: RenameRequest): Promise<RenamePlan> {
+  const title = (request.title ?? note.title).trim();
+  if (!title) {
+    throw new Error("Title is required");
+  }
+
+  let filename = (request.filename || note.filename).trim();
+  if (!filename.endsWith(".md")) {
+    filename = `${filename}.md`;
+  }
+  if (filename.includes("/")) {
+    throw new Error("The file name cannot contain /");
+  }
+
+  const directory = request.directory === undefined ? dirname(note.absPath) : join(note.notebookDir, request.directory);
+  if (relative(note.notebookDir, directory).startsWith("..")) {
+    throw new Error("The folder must be inside the notebook");
+  }
+
+  const newPath = join(directory, filename);
+  if (newPath !== note.absPath && existsSync(newPath)) {
+    throw new Error(`${relative(note.notebookDir, newPath)} already exists`);
+  }
+
+  const plan: RenamePlan = { note, title, oldPath: note.absPath, newPath, edits: [] };
+  const diff = (path: string, before: string, after: string) => {
+    const beforeLines = before.split("\n");
+    const changes = after
+      .split("\n")
+      .map((line, index) => ({ line: index + 1, before: beforeLines[index], after: line }))
+      .filter((change) => change.before !== change.after);
+    if (changes.length > 0) {
+      plan.edits.push({ path, displayPath: relative(note.notebookDir, path), before, after, changes });
+    }
+  };
+
+  const content = await readFile(note.absPath, "utf-8");
+  let updated = title !== note.title ? retitleContent(content, note.title, title) : content;
+  updated = rebaseRelativeLinks(updated, note.absPath, newPath);
+  diff(note.absPath, content, request.transform ? request.transform(updated) : updated);
+
+  // zk knows the backlinks; the exact links to rewrite are then found in each file
+  const backlinks = await zkFor(note.notebookDir).list({ linkTo: [note.path] });
+  const resolve = createLinkResolver([note]);
+
+  for (const source of backlinks) {
+    if (source.absPath === note.absPath) {
+      continue;
+    }
+    const before = await readFile(source.absPath, "utf-8");
+    const links = extractLinks(before).filter((link) => resolve(link, source.path));
+    // Replace from the end of each line so that earlier columns stay valid
+    const after = links
+      .sort((a, b) => b.line - a.line || b.column - a.column)
+      .reduce((content, link) => replaceLinkAt(content, link, rewriteLink(link, plan, source.path)), before);
+    diff(source.absPath, before, after);
+  }
+
+  return plan;
+}
+
+/**
+ * Apply a planned rename. Files changed since the plan was made are not overwritten:
+ * the rename stops and the files already written are restored.
+ */
+export async function applyRename(plan: RenamePlan): Promise<RenameRecord> {
+  const written: FileEdit[] = [];
+
+  try {
+    for (const edit of plan.edits) {
+      await updateFileAtomic(edit.path, (content) => {
+        if (content !== edit.before) {
+          throw new Error(`${edit.displayPath} changed since the preview`);
+        }
+        return edit.after;
+      });
+      written.push(edit);
+    }
+
+    if (plan.newPath !== plan.oldPath) {
+      await mkdir(dirname(plan.newPath), { recursive: true });
+      await rename(plan.oldPath, plan.newPath);
+    }
+  } catch (error) {
+    for (const edit of written.reverse()) {
+      await writeFileAtomic(edit.path, edit.before).catch(() => undefined);
+    }
+    throw error;
+  }
+
+  const record: RenameRecord = {
+    oldPath: plan.oldPath,
+    newPath: plan.newPath,
+    // Paths after the rename, where undo will find the files
+    files: plan.edits.map((edit) => ({
+      path: edit.path === plan.oldPath ? plan.newPath : edit.path,
+      before: edit.before,
+      after: edit.after,
+    })),
+    appliedAt: new Date().toISOString(),
+  };
+
+  await mkdir(environment.supportPath, { recursive: true });
+  await writeFileAtomic(lastRenamePath(), JSON.stringify(record));
+  await renamePin(plan.oldPath, plan.newPath);
+  return record;
+}
+
+/**
+ * The last applied rename, if it has not been undone
+ */
+export async function loadLastRename(): Promise<RenameRecord | null> {
+  try {
+    return JSON.parse(await readFile(lastRenamePath(), "utf-8")) as RenameRecord;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Undo the last rename, if none of the files it changed has been edited since
+ */
+export async function undoLastRename(): Promise<RenameRecord> {
+  const record = await loadLastRename();
+  if (!record) {
+    throw new Error("There is no rename to undo");
+  }
+
+  if (record.newPath !== record.oldPath && existsSync(record.oldPath)) {
+    throw new Error(`${basename(record.oldPath)} exists again`);
+  }
+  for (const file of record.files) {
+    const content = await readFile(file.path, "utf-8").catch(() => null);
+    if (content !== file.after) {
+      throw new Error(`${basename(file.path)} changed since the rename`);
+    }
+  }
+
+  for (const file of record.files) {
+    await writeFileAtomic(file.path, file.before);
+  }
+  if (record.newPath !== record.oldPath) {
+    await rename(record.newPath, record.oldPath);
+    await renamePin(record.newPath, record.oldPath);
+  }
+
+  await writeFileAtomic(lastRenamePath(), "null");
+  return record;
+}
+
+/**
+ * Plan moving a note to another notebook-relative folder
+ */
+export function planMove(note: ZKNote, directory: string, transform?: (content: string) => string): Promise<RenamePlan> {
+  return planRename(note, { directory: directory.replace(/^\/+|\/+$/g, ""), transform });
+}
+
+/**
+ * File name matching a title, as used for new notes
+ */
+export function filenameForTitle(title: string): string {
+  return `${toDashCase(title) || "untitled"}.md`;
+}
@@ -0,0 +1,69 @@
+import { LocalStorage } from "@raycast/api";
+import { createDeeplink } from "@raycast/utils";
+import { MatchStrategy } from "./client";
+
+/**
+ * Search queries saved under a name, kept in the extension's LocalStorage
+ */
+
+const STORAGE_KEY = "saved-searches";
+
+export interface SavedSearch {
+  name: string;
+  query: string;
+  /** Notebook directory or `all`; the current selection is kept when missing */
+  notebook?: string;
+  strategy?: MatchStrategy;
+}
+
+/**
+ * Launch context of the search command, e.g. from a saved search deeplink
+ */
+export interface SearchLaunchContext {
+  query?: string;
+  notebook?: string;
+  strategy?: MatchStrategy;
+}
+
+export async function loadSavedSearches(): Promise<SavedSearch[]> {
+  const stored = await LocalStorage.getItem<string>(STORAGE_KEY);
+  try {
+    const searches = stored ? JSON.parse(stored) : [];
+    return Array.isArray(searches) ? searches : [];
+  } catch {
+    return [];
+  }
+}
+
+async function storeSavedSearches(searches: SavedSearch[]): Promise<SavedSearch[]> {
+  await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(searches));
+  return searches;
+}
+
+/**
+ * Save a search, replacing the one with the same name
+ */
+export async function saveSearch(search: SavedSearch): Promise<SavedSearch[]> {
+  const name = search.name.trim();
+  if (!name) {
+    throw new Error("Name is required");
+  }
+  if (!search.query.trim()) {
+    throw new Error("There is no query to save");
+  }
+
+  const searches = (await loadSavedSearches()).filter((item) => item.name !== name);
+  return storeSavedSearches([...searches, { ...search, name }].sort((a, b) => a.name.localeCompare(b.name)));
+}
+
+export async function deleteSavedSearch(name: string): Promise<SavedSearch[]> {
+  return storeSavedSearches((await loadSavedSearches()).filter((item) => item.name !== name));
+}
+
+/**
+ * Deeplink opening the search command with a saved search, usable as a quicklink
+ */
+export function savedSearchDeeplink(search: SavedSearch): string {
+  const context: SearchLaunchContext = { query: search.query, notebook: search.notebook, strategy: search.strategy };
+  return createDeeplink({ command: "search", context: { ...context } });
+}
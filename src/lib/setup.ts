@@ -0,0 +1,109 @@
+import { openExtensionPreferences, showHUD } from "@raycast/api";
+import { accessSync, constants, existsSync, statSync } from "fs";
+import { join } from "path";
+import { ZK_BIN, ZK_NOTEBOOK_DIR } from "./zk";
+
+/**
+ * Startup checks of the extension preferences, run before a command touches the notebook.
+ */
+
+export interface SetupProblem {
+  title: string;
+  /** Markdown explaining how to fix the problem */
+  description: string;
+}
+
+/**
+ * Error thrown by no-view commands when the preferences point to a missing binary or notebook
+ */
+export class SetupError extends Error {
+  readonly problem: SetupProblem;
+
+  constructor(problem: SetupProblem) {
+    super(problem.title);
+    this.name = "SetupError";
+    this.problem = problem;
+  }
+}
+
+function isExecutable(path: string): boolean {
+  try {
+    accessSync(path, constants.X_OK);
+    return statSync(path).isFile();
+  } catch {
+    return false;
+  }
+}
+
+function isDirectory(path: string): boolean {
+  try {
+    return statSync(path).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check that the zk binary and the notebook exist; returns the first problem found
+ */
+export function checkSetup(): SetupProblem | null {
+  if (!isExecutable(ZK_BIN)) {
+    return {
+      title: "zk binary not found",
+      description: [
+        `No executable was found at \`${ZK_BIN}\`.`,
+        "",
+        "Install zk (`brew install zk`), then set **zk Binary** in the extension preferences",
+        "to the output of `which zk`.",
+      ].join("\n"),
+    };
+  }
+
+  if (!isDirectory(ZK_NOTEBOOK_DIR)) {
+    return {
+      title: "Notebook not found",
+      description: [
+        `The notebook directory \`${ZK_NOTEBOOK_DIR}\` does not exist.`,
+        "",
+        "Set **Notebook Directory** in the extension preferences to the folder of your zk notebook.",
+      ].join("\n"),
+    };
+  }
+
+  if (!existsSync(join(ZK_NOTEBOOK_DIR, ".zk"))) {
+    return {
+      title: "Not a zk notebook",
+      description: [
+        `\`${ZK_NOTEBOOK_DIR}\` has no \`.zk\` folder.`,
+        "",
+        "Choose the root folder of your notebook in the extension preferences,",
+        `or create a notebook there with \`zk init ${ZK_NOTEBOOK_DIR}\`.`,
+      ].join("\n"),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Throw a SetupError if the preferences are not usable
+ */
+export function assertSetup(): void {
+  const problem = checkSetup();
+  if (problem) {
+    throw new SetupError(problem);
+  }
+}
+
+/**
+ * Report a SetupError from a no-view command and open the preferences to fix it.
+ * Returns false for other errors, which the command reports itself.
+ */
+export async function handleSetupError(error: unknown): Promise<boolean> {
+  if (!(error instanceof SetupError)) {
+    return false;
+  }
+  await showHUD(`${error.message}: check the extension preferences`);
+  await openExtensionPreferences();
+  return true;
+}
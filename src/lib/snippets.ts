@@ -0,0 +1,247 @@
+import { MatchStrategy, ZKNote } from "./client";
+
+/**
+ * Snippets showing where a full-text query matched a note.
+ *
+ * zk's own snippets are used when it marks the hits (FTS matches); otherwise,
+ * for exact and regex matches or results filtered from the index, the note's
+ * content is scanned line by line.
+ */
+
+export interface MatchRange {
+  start: number;
+  end: number;
+}
+
+export interface MatchSnippet {
+  /** 1-based line of the note file, when known */
+  line?: number;
+  text: string;
+  /** Hits within `text` */
+  highlights: MatchRange[];
+}
+
+/** Characters kept on each side of the first hit */
+const CONTEXT = 50;
+
+const ZK_MATCH = /<zk:match>(.*?)<\/zk:match>/g;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Words an FTS query looks for, without operators, column filters and excluded terms
+ */
+function ftsTerms(text: string): string[] {
+  const terms: string[] = [];
+  const pattern = /(-?)"([^"]*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+  let negated = false;
+
+  while ((match = pattern.exec(text))) {
+    if (match[2] !== undefined) {
+      if (!match[1] && !negated) {
+        terms.push(match[2]);
+      }
+      negated = false;
+      continue;
+    }
+
+    const word = match[3];
+    if (word === "NOT") {
+      negated = true;
+      continue;
+    }
+    if (word === "AND" || word === "OR" || word === "NEAR") {
+      continue;
+    }
+    if (!word.startsWith("-") && !negated) {
+      terms.push(word.replace(/^[(^]+|[)*]+$/g, "").replace(/^\w+:/, ""));
+    }
+    negated = false;
+  }
+
+  return terms.filter(Boolean);
+}
+
+/**
+ * Regular expression finding the hits of a query, or null if it cannot be built
+ * (e.g. an incomplete regex while typing)
+ */
+export function createMatcher(text: string, strategy: MatchStrategy = "fts"): RegExp | null {
+  if (!text.trim()) {
+    return null;
+  }
+
+  try {
+    if (strategy === "re") {
+      return new RegExp(text, "gi");
+    }
+    if (strategy === "exact") {
+      return new RegExp(escapeRegExp(text), "gi");
+    }
+    const terms = ftsTerms(text);
+    return terms.length > 0 ? new RegExp(terms.map(escapeRegExp).join("|"), "gi") : null;
+  } catch {
+    return null;
+  }
+}
+
+function findRanges(line: string, matcher: RegExp): MatchRange[] {
+  const ranges: MatchRange[] = [];
+  matcher.lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = matcher.exec(line))) {
+    if (match[0].length === 0) {
+      // Empty matches (e.g. `a*`) would loop forever
+      matcher.lastIndex++;
+      continue;
+    }
+    ranges.push({ start: match.index, end: match.index + match[0].length });
+  }
+
+  return ranges;
+}
+
+/**
+ * Cut a long line down to the text around its first hit
+ */
+function excerpt(text: string, highlights: MatchRange[], line?: number): MatchSnippet {
+  const trimmed = text.trimEnd();
+  const start = Math.max(0, (highlights[0]?.start ?? 0) - CONTEXT);
+  const end = Math.min(trimmed.length, Math.max(highlights[0]?.end ?? 0, start) + CONTEXT);
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < trimmed.length ? "…" : "";
+  const shift = start - prefix.length;
+
+  return {
+    line,
+    text: `${prefix}${trimmed.slice(start, end)}${suffix}`,
+    highlights: highlights
+      .filter((range) => range.start >= start && range.end <= end)
+      .map((range) => ({ start: range.start - shift, end: range.end - shift })),
+  };
+}
+
+/**
+ * Scan note content for the hits of a query, one snippet per matching line
+ */
+export function findSnippets(content: string, matcher: RegExp, limit = 3): MatchSnippet[] {
+  const snippets: MatchSnippet[] = [];
+  const lines = content.split("\n");
+
+  for (let index = 0; index < lines.length && snippets.length < limit; index++) {
+    const highlights = findRanges(lines[index], matcher);
+    if (highlights.length > 0) {
+      snippets.push(excerpt(lines[index], highlights, index + 1));
+    }
+  }
+
+  return snippets;
+}
+
+/**
+ * Turn a zk snippet with `<zk:match>` markers into a snippet, locating its line in the content
+ */
+export function parseZkSnippet(snippet: string, content: string): MatchSnippet {
+  const highlights: MatchRange[] = [];
+  let text = "";
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  ZK_MATCH.lastIndex = 0;
+  while ((match = ZK_MATCH.exec(snippet))) {
+    text += snippet.slice(last, match.index);
+    highlights.push({ start: text.length, end: text.length + match[1].length });
+    text += match[1];
+    last = match.index + match[0].length;
+  }
+  text += snippet.slice(last);
+
+  // zk snippets may span lines: keep the line of the first hit
+  const lineStart = text.lastIndexOf("\n", highlights[0]?.start ?? 0) + 1;
+  const lineEnd = text.indexOf("\n", lineStart);
+  const lineText = text.slice(lineStart, lineEnd < 0 ? undefined : lineEnd);
+  const lineHighlights = highlights
+    .map((range) => ({ start: range.start - lineStart, end: range.end - lineStart }))
+    .filter((range) => range.start >= 0 && range.end <= lineText.length);
+
+  // zk shortens snippets with `…`, the rest of the line is found as is in the note
+  const needle = lineText.replace(/^…|…$/g, "").trim();
+  const index = needle ? content.split("\n").findIndex((line) => line.includes(needle)) : -1;
+  return excerpt(lineText, lineHighlights, index >= 0 ? index + 1 : undefined);
+}
+
+/**
+ * Where a note matched a free-text query: zk's snippets when it marked the hits, a scan of the note otherwise
+ */
+export function noteSnippets(note: ZKNote, text: string, strategy: MatchStrategy = "fts", limit = 3): MatchSnippet[] {
+  const content = note.rawContent || note.body;
+  const marked = note.snippets.filter((snippet) => snippet.includes("<zk:match>"));
+  if (marked.length > 0) {
+    return marked.slice(0, limit).map((snippet) => parseZkSnippet(snippet, content));
+  }
+
+  const matcher = createMatcher(text, strategy);
+  return matcher ? findSnippets(content, matcher, limit) : [];
+}
+
+/**
+ * Check whether a note's title, path or content matches a query
+ */
+export function noteMatches(note: ZKNote, text: string, strategy: MatchStrategy = "fts"): boolean {
+  const matcher = createMatcher(text, strategy);
+  if (!matcher) {
+    return false;
+  }
+  return [note.title, note.path, note.rawContent || note.body].some((value) => findRanges(value, matcher).length > 0);
+}
+
+/**
+ * Relevance of a note to a free-text query, by its number of hits.
+ * Like zk's ranking, hits in the title weigh most, then the path, then the content.
+ */
+export function relevanceScore(note: ZKNote, text: string, strategy: MatchStrategy = "fts"): number {
+  const matcher = createMatcher(text, strategy);
+  if (!matcher) {
+    return 0;
+  }
+  return (
+    5 * findRanges(note.title, matcher).length +
+    2 * findRanges(note.path, matcher).length +
+    findRanges(note.rawContent || note.body, matcher).length
+  );
+}
+
+/**
+ * Order notes by relevance to a free-text query, most relevant first; ties keep their order
+ */
+export function sortByRelevance(notes: ZKNote[], text: string, strategy: MatchStrategy = "fts"): ZKNote[] {
+  const scores = new Map(notes.map((note) => [note.id, relevanceScore(note, text, strategy)]));
+  return [...notes].sort((a, b) => (scores.get(b.id) || 0) - (scores.get(a.id) || 0));
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]#<>|])/g, "\\$1");
+}
+
+/**
+ * Snippet text with its hits in bold, for detail views
+ */
+export function highlightMarkdown(snippet: MatchSnippet): string {
+  let markdown = "";
+  let last = 0;
+
+  for (const range of snippet.highlights) {
+    if (range.start < last) {
+      continue;
+    }
+    markdown += escapeMarkdown(snippet.text.slice(last, range.start));
+    markdown += `**${escapeMarkdown(snippet.text.slice(range.start, range.end))}**`;
+    last = range.end;
+  }
+
+  return markdown + escapeMarkdown(snippet.text.slice(last));
+}
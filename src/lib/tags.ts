@@ -0,0 +1,188 @@
+import { ZKNote } from "./client";
+
+/**
+ * A tag of the notebook. Nested tags use `/` as separator (`project/alpha`),
+ * parents that are never used on their own still get a node.
+ */
+export interface TagNode {
+  /** Full tag name, e.g. `project/alpha` */
+  name: string;
+  /** Last segment of the name, e.g. `alpha` */
+  label: string;
+  depth: number;
+  /** Notes tagged with exactly this tag */
+  noteCount: number;
+  /** Distinct notes tagged with this tag or any of its descendants */
+  totalCount: number;
+  children: TagNode[];
+}
+
+export type TagSort = "count" | "name";
+
+/**
+ * Check whether a note carries a tag, or one of its descendants with `includeNested`
+ */
+export function hasTag(note: ZKNote, tag: string, includeNested = true): boolean {
+  const lower = tag.toLowerCase();
+  return note.tags.some((noteTag) => {
+    const noteLower = noteTag.toLowerCase();
+    return noteLower === lower || (includeNested && noteLower.startsWith(`${lower}/`));
+  });
+}
+
+/**
+ * Every tag used in the given notes with its note count, most used first
+ */
+export function countTags(notes: ZKNote[]): Array<{ name: string; noteCount: number }> {
+  const counts = new Map<string, number>();
+  for (const note of notes) {
+    for (const tag of new Set(note.tags)) {
+      counts.set(tag, (counts.get(tag) || 0) + 1);
+    }
+  }
+
+  return Array.from(counts, ([name, noteCount]) => ({ name, noteCount })).sort(
+    (a, b) => b.noteCount - a.noteCount || a.name.localeCompare(b.name)
+  );
+}
+
+export interface NormalizeTagsOptions {
+  lowercase?: boolean;
+}
+
+/**
+ * Clean up user-entered tags: trim, drop `#` prefixes and empty entries,
+ * remove duplicates (case-insensitively) and optionally lowercase.
+ * Comma separated entries are split.
+ */
+export function normalizeTags(tags: string[], options: NormalizeTagsOptions = {}): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+
+  for (const entry of tags) {
+    for (const raw of entry.split(",")) {
+      let tag = raw.trim().replace(/^#+/, "").replace(/\s+/g, "-");
+      if (options.lowercase) {
+        tag = tag.toLowerCase();
+      }
+      if (!tag || seen.has(tag.toLowerCase())) {
+        continue;
+      }
+      seen.add(tag.toLowerCase());
+      result.push(tag);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Format values as a YAML flow sequence, e.g. `[work, "a: b"]`,
+ * so that `tags: {{extra.tags}}` in a template renders a real list
+ */
+export function toYamlList(values: string[]): string {
+  const items = values.map((value) =>
+    /^[\p{L}\p{N}_][\p{L}\p{N}_/.-]*$/u.test(value) && !/^(true|false|null|yes|no|on|off|~)$/i.test(value)
+      ? value
+      : JSON.stringify(value)
+  );
+  return `[${items.join(", ")}]`;
+}
+
+/**
+ * Build the tag hierarchy of the given notes
+ */
+export function buildTagTree(notes: ZKNote[]): TagNode[] {
+  const nodes = new Map<string, TagNode>();
+  const members = new Map<string, Set<string>>();
+  const roots: TagNode[] = [];
+
+  const nodeFor = (name: string): TagNode => {
+    const existing = nodes.get(name);
+    if (existing) {
+      return existing;
+    }
+
+    const segments = name.split("/");
+    const node: TagNode = {
+      name,
+      label: segments[segments.length - 1],
+      depth: segments.length - 1,
+      noteCount: 0,
+      totalCount: 0,
+      children: [],
+    };
+    nodes.set(name, node);
+    members.set(name, new Set());
+
+    if (segments.length > 1) {
+      nodeFor(segments.slice(0, -1).join("/")).children.push(node);
+    } else {
+      roots.push(node);
+    }
+    return node;
+  };
+
+  for (const note of notes) {
+    for (const tag of new Set(note.tags)) {
+      const segments = tag.split("/").filter(Boolean);
+      if (segments.length === 0) {
+        continue;
+      }
+      nodeFor(segments.join("/")).noteCount++;
+
+      // Count the note once for the tag and each of its ancestors
+      for (let depth = 1; depth <= segments.length; depth++) {
+        const name = segments.slice(0, depth).join("/");
+        nodeFor(name);
+        members.get(name)?.add(note.path);
+      }
+    }
+  }
+
+  for (const [name, node] of nodes) {
+    node.totalCount = members.get(name)?.size || 0;
+  }
+
+  return roots;
+}
+
+function sortTagNodes(nodes: TagNode[], sort: TagSort): TagNode[] {
+  return [...nodes].sort((a, b) =>
+    sort === "count" ? b.totalCount - a.totalCount || a.name.localeCompare(b.name) : a.name.localeCompare(b.name)
+  );
+}
+
+/**
+ * Flatten a tag tree depth-first, ordering siblings by count or name
+ */
+export function flattenTagTree(nodes: TagNode[], sort: TagSort): TagNode[] {
+  return sortTagNodes(nodes, sort).flatMap((node) => [node, ...flattenTagTree(node.children, sort)]);
+}
+
+export interface TagGroup {
+  /** Top-level tag the group is about, undefined for top-level tags without nested tags */
+  parent?: TagNode;
+  tags: TagNode[];
+}
+
+/**
+ * Split the hierarchy into list sections: one per top-level tag with nested tags (the tag,
+ * then its descendants), while consecutive tags without nested tags share a section
+ */
+export function groupTagTree(nodes: TagNode[], sort: TagSort): TagGroup[] {
+  const groups: TagGroup[] = [];
+
+  for (const node of sortTagNodes(nodes, sort)) {
+    const last = groups[groups.length - 1];
+    if (node.children.length > 0) {
+      groups.push({ parent: node, tags: flattenTagTree([node], sort) });
+    } else if (last && !last.parent) {
+      last.tags.push(node);
+    } else {
+      groups.push({ tags: [node] });
+    }
+  }
+
+  return groups;
+}
@@ -1,308 +1,130 @@
-import { exec } from "child_process";
-import { promisify } from "util";
+import { getPreferenceValues } from "@raycast/api";
+import { existsSync } from "fs";
+import { homedir } from "os";
 import { join, dirname } from "path";
-import { rename } from "fs/promises";
+import { readFile, rename } from "fs/promises";
+import { ZkClient, ZkError, ZKNote, ListOptions, MatchStrategy, SortField } from "./client";
+import { toYamlList } from "./tags";
+import { appendToFile } from "./files";
+import { launchEditor } from "./editor";
+import { createMatcher, noteMatches } from "./snippets";
+import { RANK_BY_FRECENCY, recordVisit } from "./frecency";
+import { DateFilter, LinkMode, ParsedQuery, parseDateTerm, parseQuery, isEmptyQuery } from "./query";
 
-const execAsync = promisify(exec);
-
-export const ZK_NOTEBOOK_DIR = process.env.ZK_NOTEBOOK_DIR || `${process.env.HOME}/Sync/Notes`;
-export const ZK_BIN = process.env.ZK_BIN || "/opt/homebrew/bin/zk";
-
-export interface ZKNote {
-  id: string;
-  title: string;
-  path: string;
-  content?: string;
-}
+export type { ZKNote } from "./client";
 
 /**
- * Execute zk command with proper environment setup
+ * Expand a leading `~` in paths typed into the preferences
  */
-async function execZk(args: string[]): Promise<string> {
-  const env = {
-    ...process.env,
-    ZK_NOTEBOOK_DIR,
-    EDITOR: "/usr/bin/true",
-    VISUAL: "/usr/bin/true",
-  };
-
-  const command = `${ZK_BIN} ${args.map((arg) => `"${arg.replace(/"/g, '\\"')}"`).join(" ")}`;
-
-  try {
-    const { stdout, stderr } = await execAsync(command, {
-      shell: "/bin/bash",
-      maxBuffer: 10 * 1024 * 1024, // 10MB
-      env,
-    });
-
-    // zk may output informational messages to stderr (like "Found X notes")
-    // These are not errors, so we combine stdout and stderr
-    const combinedOutput = [stdout, stderr]
-      .filter(Boolean)
-      .join("\n")
-      .trim();
-
-    // Check if stderr contains informational messages (not errors)
-    const isInformationalMessage = (text: string): boolean => {
-      if (!text || text.trim() === "") return true;
-      const lower = text.toLowerCase();
-      if (lower.includes("found") && lower.includes("notes")) {
-        return true;
-      }
-      if (lower.includes("warning")) {
-        return true;
-      }
-      return false;
-    };
-
-    // Never throw error for informational messages
-    // Only throw if stderr contains actual errors AND no valid output
-    if (stderr && !isInformationalMessage(stderr)) {
-      const hasValidOutput = stdout && (
-        stdout.includes("[") ||
-        stdout.includes("{") ||
-        stdout.includes(".md") ||
-        stdout.trim().length > 0
-      );
-
-      if (!hasValidOutput) {
-        throw new Error(stderr);
-      }
-    }
-
-    return combinedOutput;
-  } catch (error: any) {
-    const stdout = error.stdout || "";
-    const stderr = error.stderr || "";
-    const errorMessage = error.message || String(error);
+export function expandHome(path: string): string {
+  return path.replace(/^~(?=$|\/)/, homedir());
+}
 
-    const allOutput = [stdout, stderr, errorMessage].filter(Boolean).join("\n");
-    const outputLower = allOutput.toLowerCase();
+const preferences = getPreferenceValues<Preferences>();
 
-    // Never throw if output contains "Found X notes" - it's informational
-    if (outputLower.includes("found") && outputLower.includes("notes")) {
-      const combined = [stdout, stderr].filter(Boolean).join("\n").trim();
-      return combined || allOutput;
-    }
+export const ZK_NOTEBOOK_DIR = expandHome(preferences.notebookDir || "~/Sync/Notes").replace(/\/+$/, "");
+export const ZK_BIN = expandHome(preferences.zkBin || "/opt/homebrew/bin/zk");
+/** Notebook-relative directory new notes go to when none is chosen */
+export const INBOX_DIR = (preferences.inboxDir || "Inbox").replace(/^\/+|\/+$/g, "");
+/** Notebook-relative directory archived notes are moved to */
+export const ARCHIVE_DIR = (preferences.archiveDir || "Archive").replace(/^\/+|\/+$/g, "");
+/** Order of note lists; `@recent` always sorts by modification date */
+export const DEFAULT_SORT = (preferences.defaultSort || "modified") as SortField;
 
-    throw new Error(`zk command failed: ${errorMessage}`);
-  }
-}
+const clients = new Map<string, ZkClient>();
 
 /**
- * Extract JSON from zk output (handles "Found X notes" messages)
+ * zk client of a notebook (the main notebook by default)
  */
-function extractJson(output: string): string {
-  // Remove informational messages like "Found X notes"
-  const cleaned = output
-    .split("\n")
-    .filter((line) => {
-      const trimmed = line.trim();
-      return (
-        trimmed &&
-        !trimmed.match(/^Found \d+ notes?$/i) &&
-        !trimmed.toLowerCase().includes("warning:")
-      );
-    })
-    .join("\n");
-
-  // Try to find JSON array in the output
-  const jsonMatch = cleaned.match(/\[[\s\S]*\]/);
-  if (jsonMatch) {
-    return jsonMatch[0];
+export function zkFor(notebookDir: string = ZK_NOTEBOOK_DIR): ZkClient {
+  let client = clients.get(notebookDir);
+  if (!client) {
+    client = new ZkClient({ bin: ZK_BIN, notebookDir });
+    clients.set(notebookDir, client);
   }
+  return client;
+}
 
-  // If no array found, try to find JSON object
-  const objectMatch = cleaned.match(/\{[\s\S]*\}/);
-  if (objectMatch) {
-    return objectMatch[0];
-  }
+export const zk = zkFor(ZK_NOTEBOOK_DIR);
 
-  // If no JSON found, return the cleaned output (will fail parsing with better error)
-  return cleaned.trim();
+/**
+ * List all ZK notes in the default sort order
+ */
+export async function listNotes(notebookDir?: string): Promise<ZKNote[]> {
+  return zkFor(notebookDir).list({ sort: [DEFAULT_SORT] });
 }
 
 /**
- * List all ZK notes (sorted by modification date, most recent first)
+ * Search ZK notes by tag
  */
-export async function listNotes(): Promise<ZKNote[]> {
-  try {
-    const output = await execZk(["list", "--format", "json", "--sort", "modified"]);
-    const jsonOutput = extractJson(output);
-    const notes = JSON.parse(jsonOutput);
-
-    if (!Array.isArray(notes)) {
-      throw new Error("Expected array of notes");
-    }
-
-    return notes.map((note: any) => ({
-      id: note.id || note.path || "",
-      title: note.title || note.path?.split("/").pop()?.replace(/\.md$/, "") || "Untitled",
-      path: note.path || note.id || "",
-    }));
-  } catch (error: any) {
-    const errorMessage = error.message || String(error);
-    const errorLower = errorMessage.toLowerCase();
-
-    // If error message contains "Found X notes", try to extract JSON from it
-    if (errorLower.includes("found") && errorLower.includes("notes")) {
-      try {
-        const jsonOutput = extractJson(errorMessage);
-        const notes = JSON.parse(jsonOutput);
-        if (Array.isArray(notes)) {
-          return notes.map((note: any) => ({
-            id: note.id || note.path || "",
-            title: note.title || note.path?.split("/").pop()?.replace(/\.md$/, "") || "Untitled",
-            path: note.path || note.id || "",
-          }));
-        }
-      } catch {
-        // Continue to fallback
-      }
-    }
+export async function searchByTag(tag: string, notebookDir?: string): Promise<ZKNote[]> {
+  return zkFor(notebookDir).list({ tags: [tag], sort: [DEFAULT_SORT] });
+}
 
-    // Fallback: try without JSON format
-    try {
-      const output = await execZk(["list", "--sort", "modified"]);
-      const lines = output.split("\n").filter((line) => {
-        const trimmed = line.trim();
-        return trimmed && !trimmed.match(/^Found \d+ notes?$/i);
-      });
-
-      return lines.map((line) => {
-        const path = line.trim();
-        const title = path.split("/").pop()?.replace(/\.md$/, "") || "Untitled";
-        return {
-          id: path,
-          title,
-          path,
-        };
-      });
-    } catch (fallbackError: any) {
-      const fallbackMessage = fallbackError.message || String(fallbackError);
-      if (fallbackMessage.toLowerCase().includes("found") && fallbackMessage.toLowerCase().includes("notes")) {
-        throw fallbackError;
-      }
-      throw new Error(`Failed to list notes: ${errorMessage}`);
-    }
+/**
+ * Add a date filter to zk list options
+ * e.g. created + after -> createdAfter
+ */
+function applyDateFilter(options: ListOptions, filter: DateFilter): void {
+  if (filter.op === "on") {
+    options[filter.field] = filter.value;
+  } else if (filter.field === "created") {
+    options[filter.op === "before" ? "createdBefore" : "createdAfter"] = filter.value;
+  } else {
+    options[filter.op === "before" ? "modifiedBefore" : "modifiedAfter"] = filter.value;
   }
 }
 
+const LINK_OPTIONS: Record<LinkMode, "linkedBy" | "linkTo" | "related"> = {
+  "linked-by": "linkedBy",
+  "link-to": "linkTo",
+  related: "related",
+};
+
 /**
- * Search ZK notes by tag
+ * Build zk list options combining every filter of a parsed query
  */
-export async function searchByTag(tag: string): Promise<ZKNote[]> {
-  try {
-    const args = ["list", "--format", "json", "--no-input", "--quiet", "--tag", tag];
-    const output = await execZk(args);
-    const jsonOutput = extractJson(output);
-    const notes = JSON.parse(jsonOutput);
+export function queryToListOptions(query: ParsedQuery): ListOptions {
+  const options: ListOptions = {
+    sort: [query.sortByModified ? "modified" : DEFAULT_SORT],
+    tags: query.tags,
+    excludeTags: query.excludedTags,
+    orphan: query.orphan,
+    tagless: query.tagless,
+  };
 
-    if (!Array.isArray(notes)) {
-      throw new Error("Expected array of notes");
-    }
+  for (const date of query.dates) {
+    applyDateFilter(options, date);
+  }
 
-    return notes.map((note: any) => ({
-      id: note.id || note.path || "",
-      title: note.title || note.path?.split("/").pop()?.replace(/\.md$/, "") || "Untitled",
-      path: note.path || note.id || "",
-    }));
-  } catch (error: any) {
-    const errorMessage = error.message || String(error);
-    const errorLower = errorMessage.toLowerCase();
-
-    if (errorLower.includes("found") && errorLower.includes("notes")) {
-      try {
-        const jsonOutput = extractJson(errorMessage);
-        const notes = JSON.parse(jsonOutput);
-        if (Array.isArray(notes)) {
-          return notes.map((note: any) => ({
-            id: note.id || note.path || "",
-            title: note.title || note.path?.split("/").pop()?.replace(/\.md$/, "") || "Untitled",
-            path: note.path || note.id || "",
-          }));
-        }
-      } catch {
-        // Continue to return empty
-      }
-    }
+  for (const link of query.links) {
+    const key = LINK_OPTIONS[link.mode];
+    options[key] = [...(options[key] || []), link.note];
+  }
 
-    // Return empty array for tag searches that fail (tag might not exist)
-    return [];
+  if (query.text) {
+    options.match = query.text;
   }
+
+  return options;
 }
 
 /**
  * Search ZK notes by date
  */
-export async function searchByDate(dateQuery: string): Promise<ZKNote[]> {
-  const args = ["list", "--format", "json", "--no-input", "--quiet"];
-
-  // Parse date patterns
-  const lowerQuery = dateQuery.toLowerCase();
-
-  if (lowerQuery === "today") {
-    args.push("--created", "today");
-  } else if (lowerQuery === "yesterday") {
-    args.push("--created", "yesterday");
-  } else if (lowerQuery === "week" || lowerQuery === "this week") {
-    args.push("--created-after", "last monday");
-  } else if (lowerQuery === "month" || lowerQuery === "this month") {
-    args.push("--created-after", "last month");
-  } else if (lowerQuery === "recent" || lowerQuery === "modified") {
-    args.push("--sort", "modified");
-  } else if (lowerQuery.startsWith("created:")) {
-    // Allow custom date: @created:yesterday, @created:last tuesday
-    args.push("--created", dateQuery.slice(8).trim());
-  } else if (lowerQuery.startsWith("modified:")) {
-    // Allow custom date: @modified:yesterday
-    args.push("--modified", dateQuery.slice(9).trim());
-  } else if (lowerQuery.startsWith("after:")) {
-    args.push("--created-after", dateQuery.slice(6).trim());
-  } else if (lowerQuery.startsWith("before:")) {
-    args.push("--created-before", dateQuery.slice(7).trim());
-  } else {
-    // Try to use as a direct date
-    args.push("--created", dateQuery);
+export async function searchByDate(dateQuery: string, notebookDir?: string): Promise<ZKNote[]> {
+  const filter = parseDateTerm(dateQuery);
+  if (!filter) {
+    // Not a date zk understands
+    return [];
   }
 
-  try {
-    const output = await execZk(args);
-    const jsonOutput = extractJson(output);
-    const notes = JSON.parse(jsonOutput);
-
-    if (!Array.isArray(notes)) {
-      throw new Error("Expected array of notes");
-    }
-
-    return notes.map((note: any) => ({
-      id: note.id || note.path || "",
-      title: note.title || note.path?.split("/").pop()?.replace(/\.md$/, "") || "Untitled",
-      path: note.path || note.id || "",
-    }));
-  } catch (error: any) {
-    const errorMessage = error.message || String(error);
-    const errorLower = errorMessage.toLowerCase();
-
-    if (errorLower.includes("found") && errorLower.includes("notes")) {
-      try {
-        const jsonOutput = extractJson(errorMessage);
-        const notes = JSON.parse(jsonOutput);
-        if (Array.isArray(notes)) {
-          return notes.map((note: any) => ({
-            id: note.id || note.path || "",
-            title: note.title || note.path?.split("/").pop()?.replace(/\.md$/, "") || "Untitled",
-            path: note.path || note.id || "",
-          }));
-        }
-      } catch {
-        // Continue to return empty
-      }
-    }
-
-    // Return empty array for date searches that fail
-    return [];
+  const options: ListOptions = { sort: [filter === "sort" ? "modified" : DEFAULT_SORT] };
+  if (filter !== "sort") {
+    applyDateFilter(options, filter);
   }
+
+  return zkFor(notebookDir).list(options);
 }
 
 /**
@@ -312,208 +134,130 @@ export async function searchByDate(dateQuery: string): Promise<ZKNote[]> {
  * - ~note: notes related to the given note
  * - !orphan: orphan notes (no backlinks)
  */
-export async function searchByLinks(linkQuery: string, mode: "linked-by" | "link-to" | "related" | "orphan"): Promise<ZKNote[]> {
-  const args = ["list", "--format", "json", "--no-input", "--quiet", "--sort", "modified"];
-
+export async function searchByLinks(
+  linkQuery: string,
+  mode: LinkMode | "orphan",
+  notebookDir?: string
+): Promise<ZKNote[]> {
   if (mode === "orphan") {
-    args.push("--orphan");
-  } else {
-    args.push(`--${mode}`, linkQuery);
+    return zkFor(notebookDir).list({ orphan: true, sort: [DEFAULT_SORT] });
   }
 
-  try {
-    const output = await execZk(args);
-    const jsonOutput = extractJson(output);
-    const notes = JSON.parse(jsonOutput);
-
-    if (!Array.isArray(notes)) {
-      throw new Error("Expected array of notes");
-    }
-
-    return notes.map((note: any) => ({
-      id: note.id || note.path || "",
-      title: note.title || note.path?.split("/").pop()?.replace(/\.md$/, "") || "Untitled",
-      path: note.path || note.id || "",
-    }));
-  } catch (error: any) {
-    const errorMessage = error.message || String(error);
-    const errorLower = errorMessage.toLowerCase();
-
-    if (errorLower.includes("found") && errorLower.includes("notes")) {
-      try {
-        const jsonOutput = extractJson(errorMessage);
-        const notes = JSON.parse(jsonOutput);
-        if (Array.isArray(notes)) {
-          return notes.map((note: any) => ({
-            id: note.id || note.path || "",
-            title: note.title || note.path?.split("/").pop()?.replace(/\.md$/, "") || "Untitled",
-            path: note.path || note.id || "",
-          }));
-        }
-      } catch {
-        // Continue to return empty
-      }
-    }
+  return zkFor(notebookDir).list({ [LINK_OPTIONS[mode]]: [linkQuery], sort: [DEFAULT_SORT] });
+}
 
-    return [];
-  }
+export interface LinkCounts {
+  backlinks: number;
+  outgoingLinks: number;
 }
 
 /**
- * Search ZK notes using zk's built-in search
- * Supports special prefixes:
- * - #tag: search by tag
- * - @date: search by date (today, yesterday, week, month, recent)
- * - >note: notes linked by note (outgoing)
- * - <note: backlinks to note
- * - ~note: related notes
- * - !orphan: orphan notes
+ * Count the notes linking to and linked by a note
  */
-export async function searchNotes(query: string): Promise<ZKNote[]> {
-  // Check if query is a tag search
-  if (query.startsWith("#")) {
-    const tag = query.slice(1).trim();
-    if (tag) {
-      return searchByTag(tag);
-    }
-    return listNotes();
-  }
+export async function getLinkCounts(notePath: string, notebookDir?: string): Promise<LinkCounts> {
+  const client = zkFor(notebookDir);
+  const [backlinks, outgoingLinks] = await Promise.all([
+    client.list({ linkTo: [notePath] }),
+    client.list({ linkedBy: [notePath] }),
+  ]);
+
+  return { backlinks: backlinks.length, outgoingLinks: outgoingLinks.length };
+}
 
-  // Check if query is a date search
-  if (query.startsWith("@")) {
-    const dateQuery = query.slice(1).trim();
-    if (dateQuery) {
-      return searchByDate(dateQuery);
-    }
-    return listNotes();
-  }
+export interface NoteLinks {
+  /** Notes linking to the note */
+  backlinks: ZKNote[];
+  /** Notes the note links to */
+  outgoing: ZKNote[];
+  /** Notes sharing links with the note without being linked to it */
+  related: ZKNote[];
+}
 
-  // Check if query is a link search
-  if (query.startsWith(">")) {
-    const noteRef = query.slice(1).trim();
-    if (noteRef) {
-      return searchByLinks(noteRef, "linked-by");
-    }
-    return listNotes();
-  }
+/**
+ * Backlinks, outgoing links and related notes of a note
+ */
+export async function getNoteLinks(notePath: string, notebookDir?: string): Promise<NoteLinks> {
+  const client = zkFor(notebookDir);
+  const [backlinks, outgoing, related] = await Promise.all([
+    client.list({ linkTo: [notePath], sort: [DEFAULT_SORT] }),
+    client.list({ linkedBy: [notePath], sort: [DEFAULT_SORT] }),
+    client.list({ related: [notePath], sort: [DEFAULT_SORT] }),
+  ]);
+
+  return { backlinks, outgoing, related };
+}
 
-  if (query.startsWith("<")) {
-    const noteRef = query.slice(1).trim();
-    if (noteRef) {
-      return searchByLinks(noteRef, "link-to");
-    }
-    return listNotes();
+/**
+ * Error thrown when a search query cannot be parsed
+ */
+export class QuerySyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QuerySyntaxError";
   }
+}
 
-  if (query.startsWith("~")) {
-    const noteRef = query.slice(1).trim();
-    if (noteRef) {
-      return searchByLinks(noteRef, "related");
+/**
+ * Search ZK notes using zk's built-in search
+ * The query may combine any of the terms described in ./query, e.g.
+ * `#work -#done @week meeting` runs a single zk list call with all filters.
+ * Free text is matched with the given strategy (full-text search by default).
+ */
+export async function searchNotes(
+  input: string | ParsedQuery,
+  notebookDir?: string,
+  strategy?: MatchStrategy
+): Promise<ZKNote[]> {
+  let query: ParsedQuery;
+  if (typeof input === "string") {
+    const { query: parsed, errors } = parseQuery(input);
+    if (errors.length > 0) {
+      throw new QuerySyntaxError(errors.map((error) => error.message).join("; "));
     }
-    return listNotes();
+    query = parsed;
+  } else {
+    query = input;
   }
 
-  if (query.startsWith("!")) {
-    const cmd = query.slice(1).trim().toLowerCase();
-    if (cmd === "orphan" || cmd === "orphans") {
-      return searchByLinks("", "orphan");
-    }
-    // Fall through to regular search if not a recognized command
+  if (isEmptyQuery(query)) {
+    return listNotes(notebookDir);
   }
 
   try {
-    const args = ["list", "--format", "json", "--no-input", "--quiet", "--sort", "modified", "--match", query];
-    const output = await execZk(args);
-    const jsonOutput = extractJson(output);
-    const notes = JSON.parse(jsonOutput);
-
-    if (!Array.isArray(notes)) {
-      throw new Error("Expected array of notes");
+    const options: ListOptions = { ...queryToListOptions(query), matchStrategy: strategy };
+    if (RANK_BY_FRECENCY && query.text && !query.sortByModified) {
+      // Without --sort, zk orders full-text matches by relevance, which frecency ranking builds on
+      delete options.sort;
     }
-
-    return notes.map((note: any) => ({
-      id: note.id || note.path || "",
-      title: note.title || note.path?.split("/").pop()?.replace(/\.md$/, "") || "Untitled",
-      path: note.path || note.id || "",
-    }));
-  } catch (error: any) {
-    const errorMessage = error.message || String(error);
-    const errorLower = errorMessage.toLowerCase();
-
-    // If error message contains "Found X notes", try to extract JSON from error
-    if (errorLower.includes("found") && errorLower.includes("notes")) {
-      try {
-        const jsonOutput = extractJson(errorMessage);
-        const notes = JSON.parse(jsonOutput);
-        if (Array.isArray(notes)) {
-          return notes.map((note: any) => ({
-            id: note.id || note.path || "",
-            title: note.title || note.path?.split("/").pop()?.replace(/\.md$/, "") || "Untitled",
-            path: note.path || note.id || "",
-          }));
-        }
-      } catch {
-        // Continue to fallback
-      }
+    return await zkFor(notebookDir).list(options);
+  } catch (error) {
+    // zk rejects some full-text queries (e.g. unbalanced FTS syntax or an incomplete regex
+    // while typing): for plain text searches, fall back to scanning the notes client-side
+    if (!(error instanceof ZkError) || !isEmptyQuery({ ...query, text: "" })) {
+      throw error;
     }
 
-    // Fallback: list all and filter client-side
-    try {
-      const allNotes = await listNotes();
-      const queryLower = query.toLowerCase();
-
-      return allNotes.filter((note) => {
-        const titleLower = note.title.toLowerCase();
-        const pathLower = note.path.toLowerCase();
-        return titleLower.includes(queryLower) || pathLower.includes(queryLower);
-      });
-    } catch (fallbackError: any) {
-      const fallbackMessage = fallbackError.message || String(fallbackError);
-      if (fallbackMessage.toLowerCase().includes("found") && fallbackMessage.toLowerCase().includes("notes")) {
-        throw fallbackError;
-      }
-      throw new Error(`Failed to search notes: ${errorMessage}`);
-    }
+    // An incomplete regex is looked for as plain text
+    const fallback = strategy === "re" && !createMatcher(query.text, "re") ? "exact" : strategy;
+    const allNotes = await listNotes(notebookDir);
+    return allNotes.filter((note) => noteMatches(note, query.text, fallback));
   }
 }
 
 /**
- * Open note in editor (Neovide or Ghostty + nvim)
+ * Open note in the editor configured in the extension preferences.
+ * Relative paths are resolved against the main notebook; pass `note.absPath` for notes of other notebooks.
+ * Throws an EditorLaunchError naming the launcher when it fails
  */
-export async function openNote(notePath: string): Promise<void> {
+export async function openNote(notePath: string, line?: number): Promise<void> {
   // Ensure we have an absolute path
   const absolutePath = notePath.startsWith("/")
     ? notePath
     : join(ZK_NOTEBOOK_DIR, notePath);
 
-  const { execSync, spawn } = require("child_process");
-
-  // Try Neovide first
-  try {
-    execSync(`open -a Neovide "${absolutePath}"`, { shell: "/bin/bash" });
-    return;
-  } catch {
-    // Fallback to Ghostty
-  }
-
-  // Try Ghostty with spawn (non-blocking)
-  const ghosttyBin = "/Applications/Ghostty.app/Contents/MacOS/ghostty";
-  const nvimBin = "/opt/homebrew/bin/nvim";
-  try {
-    const child = spawn(ghosttyBin, ["-e", nvimBin, absolutePath], {
-      detached: true,
-      stdio: "ignore",
-    });
-    child.unref();
-    return;
-  } catch {
-    // Fallback to system default
-    try {
-      execSync(`open "${absolutePath}"`, { shell: "/bin/bash" });
-    } catch (defaultError: any) {
-      throw defaultError;
-    }
-  }
+  await launchEditor({ path: absolutePath, line });
+  // Ranking should never get in the way of opening notes
+  await recordVisit(absolutePath).catch(() => undefined);
 }
 
 /**
@@ -525,20 +269,14 @@ export async function getNoteContent(notePath: string): Promise<string> {
     ? notePath
     : join(ZK_NOTEBOOK_DIR, notePath);
 
-  try {
-    const fs = require("fs").promises;
-    const content = await fs.readFile(absolutePath, "utf-8");
-    return content;
-  } catch (error: any) {
-    return `Error reading note: ${error.message}`;
-  }
+  return readFile(absolutePath, "utf-8");
 }
 
 /**
  * Convert title to dash-case filename
  * e.g., "Raycast Extensions" -> "raycast-extensions.md"
  */
-function toDashCase(input: string): string {
+export function toDashCase(input: string): string {
   return input
     .toLowerCase()
     .replace(/\s+/g, "-")
@@ -550,7 +288,36 @@ function toDashCase(input: string): string {
 
 export interface CreateNoteOptions {
   title: string;
-  tags?: string;
+  /** Normalised tag names, see normalizeTags */
+  tags?: string[];
+  /** Note group of .zk/config.toml (default: inbox, empty for none) */
+  group?: string;
+  /** Notebook-relative directory (default: the inbox directory preference) */
+  directory?: string;
+  /** Template file of .zk/templates (default: the group's template) */
+  template?: string;
+  /** Extra template variables */
+  extra?: Record<string, string>;
+  /** Text appended to the note once the template has been applied */
+  body?: string;
+  /** File name to use instead of the dash-cased title */
+  filename?: string;
+  /** Date the note is created for, passed to zk as `--date` */
+  date?: string;
+  /** Root directory of the notebook (default: the main notebook) */
+  notebookDir?: string;
+}
+
+/**
+ * Path for a new file in `dir`, adding `-2`, `-3`… to the name while a file already has it
+ */
+function availablePath(dir: string, filename: string): string {
+  const stem = filename.replace(/\.md$/, "");
+  let path = join(dir, filename);
+  for (let suffix = 2; existsSync(path); suffix++) {
+    path = join(dir, `${stem}-${suffix}.md`);
+  }
+  return path;
 }
 
 export interface CreateNoteResult {
@@ -558,49 +325,46 @@ export interface CreateNoteResult {
 }
 
 /**
- * Create a new ZK note in the Inbox folder
+ * Create a new ZK note, in the inbox directory unless another directory is given
  */
 export async function createNote(options: CreateNoteOptions): Promise<CreateNoteResult> {
-  const { title, tags } = options;
-  
+  const { title, tags, group = "inbox", directory = INBOX_DIR, template } = options;
+
   if (!title.trim()) {
     throw new Error("Title is required");
   }
 
-  const filename = `${toDashCase(title)}.md`;
-  const inboxDir = join(ZK_NOTEBOOK_DIR, "Inbox");
-
-  const args = [
-    "new",
-    "--no-input",
-    "-p",  // --print-path short form
-    "-g", "inbox",
-    "-W", inboxDir,
-    "-t", title,
-  ];
-
-  // Tags are passed via --extra (not --tag which doesn't exist in this version)
-  if (tags && tags.trim()) {
-    args.push("--extra", `tags=${tags.trim()}`);
-  }
+  const filename = options.filename || `${toDashCase(title)}.md`;
+  const notebookDir = options.notebookDir || ZK_NOTEBOOK_DIR;
+  const noteDir = join(notebookDir, directory);
 
-  const output = await execZk(args);
-  
-  // Get the last non-empty line (the path) - zk outputs warnings before the path
-  const lines = output.trim().split("\n").filter(line => line.trim() && !line.startsWith("zk: warning:"));
-  const createdPath = lines.pop() || "";
-  
-  if (!createdPath || !createdPath.includes("/")) {
-    throw new Error("Could not parse created note path from output");
+  // Tags are passed via --extra (not --tag which doesn't exist in this version),
+  // as a YAML list so that templates can render them with `tags: {{extra.tags}}`
+  const extra: Record<string, string> = { ...options.extra };
+  if (tags && tags.length > 0) {
+    extra.tags = toYamlList(tags);
   }
 
-  // Rename to dash-case filename
-  const noteDir = dirname(createdPath);
-  const newPath = join(noteDir, filename);
-  
+  const createdPath = await zkFor(notebookDir).create({
+    title,
+    group: group || undefined,
+    directory: noteDir,
+    template: template || undefined,
+    extra,
+    date: options.date,
+  });
+
+  // Rename to dash-case filename, never over an existing note
+  let newPath = join(dirname(createdPath), filename);
   if (createdPath !== newPath) {
+    newPath = availablePath(dirname(createdPath), filename);
     await rename(createdPath, newPath);
   }
 
+  // Added after zk rendered the template, so its frontmatter and headers are kept
+  if (options.body && options.body.trim()) {
+    await appendToFile(newPath, options.body);
+  }
+
   return { path: newPath };
 }
@@ -1,14 +1,115 @@
-import { Form, ActionPanel, Action, showToast, Toast, popToRoot } from "@raycast/api";
-import { useState } from "react";
-import { createNote, openNote } from "./lib/zk";
+import { Form, ActionPanel, Action, Icon, showToast, Toast, popToRoot, getPreferenceValues } from "@raycast/api";
+import { useEffect, useMemo, useState } from "react";
+import { usePromise, useCachedState } from "@raycast/utils";
+import { createNote, openNote, INBOX_DIR, ZK_NOTEBOOK_DIR } from "./lib/zk";
+import { countTags, normalizeTags } from "./lib/tags";
+import { captureText, readClipboardText, readSelectedText } from "./lib/capture";
+import { readNotebookConfig, listTemplates, listNoteDirectories } from "./lib/config";
+import { listNotebooks } from "./lib/notebooks";
+import { useNoteIndex } from "./hooks/use-note-index";
+import { withSetupCheck } from "./components/setup-check";
 
 interface FormValues {
   title: string;
-  tags: string;
+  tags: string[];
+  newTags: string;
+  body: string;
+  openEditor: boolean;
+  [extraField: string]: string | string[] | boolean;
 }
 
-export default function NewNote() {
+/** Form field ids of template variables are prefixed to keep them apart from the fixed fields */
+const EXTRA_FIELD_PREFIX = "extra-";
+
+/** Variables the form already provides */
+const BUILTIN_VARIABLES = ["tags"];
+
+export default withSetupCheck(NewNote);
+
+function NewNote() {
   const [isLoading, setIsLoading] = useState(false);
+  const { lowercaseTags, bodySource } = getPreferenceValues<Preferences.NewNote>();
+  const notebooks = useMemo(listNotebooks, []);
+  const [notebook, setNotebook] = useCachedState("new-note-notebook", ZK_NOTEBOOK_DIR);
+  const notebookDir = notebooks.some((item) => item.dir === notebook) ? notebook : notebooks[0].dir;
+  const index = useNoteIndex([notebookDir]);
+  const [body, setBody] = useState("");
+
+  useEffect(() => {
+    captureText(bodySource)
+      .then((text) => {
+        if (text) {
+          setBody((current) => current || text);
+        }
+      })
+      .catch(() => undefined);
+  }, []);
+
+  const insertIntoBody = async (read: () => Promise<string | undefined>, source: string) => {
+    const text = await read();
+    if (!text) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: `No ${source} to insert`,
+      });
+      return;
+    }
+    setBody((current) => (current.trim() ? `${current.replace(/\s+$/, "")}\n\n${text}` : text));
+  };
+
+  // Last choices are remembered between runs
+  const [group, setGroup] = useCachedState("new-note-group", "inbox");
+  const [directory, setDirectory] = useCachedState("new-note-directory", INBOX_DIR);
+  const [template, setTemplate] = useCachedState("new-note-template", "");
+
+  const { data: notebookSetup, isLoading: isLoadingNotebook } = usePromise(
+    async (dir: string) => {
+      const [config, templates, directories] = await Promise.all([
+        readNotebookConfig(dir),
+        listTemplates(dir),
+        listNoteDirectories(dir),
+      ]);
+      return { config, templates, directories };
+    },
+    [notebookDir],
+    {
+      onError: async (error) => {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Error reading notebook configuration",
+          message: error.message,
+        });
+      },
+    }
+  );
+
+  const existingTags = useMemo(() => countTags(index.notes || []), [index.notes]);
+  const groups = notebookSetup?.config.groups || [];
+  const templates = notebookSetup?.templates || [];
+
+  const directories = useMemo(() => {
+    const groupPaths = groups.flatMap((item) => item.paths);
+    return Array.from(new Set([INBOX_DIR, directory, ...groupPaths, ...(notebookSetup?.directories || [])]));
+  }, [groups, directory, notebookSetup]);
+
+  // Ignore remembered choices that no longer exist in the notebook
+  const selectedGroup = groups.some((item) => item.name === group) ? group : "";
+  const selectedTemplate = templates.some((item) => item.name === template) ? template : "";
+
+  const templateVariables = useMemo(() => {
+    const groupTemplate = groups.find((item) => item.name === selectedGroup)?.template;
+    const name = selectedTemplate || groupTemplate || notebookSetup?.config.template;
+    const variables = templates.find((item) => item.name === name)?.variables || [];
+    return variables.filter((variable) => !BUILTIN_VARIABLES.includes(variable));
+  }, [groups, templates, selectedGroup, selectedTemplate, notebookSetup]);
+
+  const handleGroupChange = (value: string) => {
+    setGroup(value);
+    const paths = groups.find((item) => item.name === value)?.paths || [];
+    if (paths.length > 0 && !paths.includes(directory)) {
+      setDirectory(paths[0]);
+    }
+  };
 
   const handleSubmit = async (values: FormValues) => {
     if (!values.title.trim()) {
@@ -19,6 +120,14 @@ export default function NewNote() {
       return;
     }
 
+    const extra: Record<string, string> = {};
+    for (const variable of templateVariables) {
+      const value = values[`${EXTRA_FIELD_PREFIX}${variable}`];
+      if (typeof value === "string" && value.trim()) {
+        extra[variable] = value.trim();
+      }
+    }
+
     setIsLoading(true);
 
     try {
@@ -29,15 +138,23 @@ export default function NewNote() {
 
       const result = await createNote({
         title: values.title.trim(),
-        tags: values.tags?.trim(),
+        tags: normalizeTags([...values.tags, values.newTags || ""], { lowercase: lowercaseTags }),
+        group: selectedGroup,
+        directory,
+        template: selectedTemplate,
+        extra,
+        body,
+        notebookDir,
       });
 
-      await showToast({
-        style: Toast.Style.Animated,
-        title: "Opening note...",
-      });
+      if (values.openEditor) {
+        await showToast({
+          style: Toast.Style.Animated,
+          title: "Opening note...",
+        });
 
-      await openNote(result.path);
+        await openNote(result.path);
+      }
 
       await showToast({
         style: Toast.Style.Success,
@@ -59,10 +176,22 @@ export default function NewNote() {
 
   return (
     <Form
-      isLoading={isLoading}
+      isLoading={isLoading || index.isLoading || isLoadingNotebook}
       actions={
         <ActionPanel>
           <Action.SubmitForm title="Create Note" onSubmit={handleSubmit} />
+          <Action
+            icon={Icon.Clipboard}
+            title="Insert Clipboard into Body"
+            onAction={() => insertIntoBody(readClipboardText, "clipboard text")}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "v" }}
+          />
+          <Action
+            icon={Icon.TextCursor}
+            title="Insert Selected Text into Body"
+            onAction={() => insertIntoBody(readSelectedText, "selected text")}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "s" }}
+          />
         </ActionPanel>
       }
     >
@@ -72,11 +201,65 @@ export default function NewNote() {
         placeholder="Enter note title"
         autoFocus
       />
+      <Form.TagPicker id="tags" title="Tags" placeholder="Existing tags (optional)">
+        {existingTags.map((tag) => (
+          <Form.TagPicker.Item key={tag.name} value={tag.name} title={`${tag.name} (${tag.noteCount})`} icon={Icon.Tag} />
+        ))}
+      </Form.TagPicker>
       <Form.TextField
-        id="tags"
-        title="Tags"
+        id="newTags"
+        title="New Tags"
         placeholder="tag1, tag2 (optional)"
+        info="Tags not used in the notebook yet, separated by commas"
+      />
+      <Form.TextArea
+        id="body"
+        title="Body"
+        placeholder="Note text (optional)"
+        value={body}
+        onChange={setBody}
+        enableMarkdown
       />
+      <Form.Checkbox id="openEditor" label="Open in editor after creating" defaultValue={true} storeValue />
+      <Form.Separator />
+      {notebooks.length > 1 && (
+        <Form.Dropdown id="notebook" title="Notebook" value={notebookDir} onChange={setNotebook}>
+          {notebooks.map((item) => (
+            <Form.Dropdown.Item key={item.dir} value={item.dir} title={item.name} icon={Icon.Book} />
+          ))}
+        </Form.Dropdown>
+      )}
+      <Form.Dropdown id="group" title="Group" value={selectedGroup} onChange={handleGroupChange}>
+        <Form.Dropdown.Item value="" title="None" icon={Icon.Circle} />
+        {groups.map((item) => (
+          <Form.Dropdown.Item key={item.name} value={item.name} title={item.name} icon={Icon.Folder} />
+        ))}
+      </Form.Dropdown>
+      <Form.Dropdown id="directory" title="Directory" value={directory} onChange={setDirectory}>
+        {directories.map((path) => (
+          <Form.Dropdown.Item key={path} value={path} title={path} icon={Icon.Folder} />
+        ))}
+      </Form.Dropdown>
+      <Form.Dropdown
+        id="template"
+        title="Template"
+        value={selectedTemplate}
+        onChange={setTemplate}
+        info="The default template is the group's, or the notebook's [note] template"
+      >
+        <Form.Dropdown.Item value="" title="Default" icon={Icon.Document} />
+        {templates.map((item) => (
+          <Form.Dropdown.Item key={item.name} value={item.name} title={item.name} icon={Icon.Document} />
+        ))}
+      </Form.Dropdown>
+      {templateVariables.map((variable) => (
+        <Form.TextField
+          key={variable}
+          id={`${EXTRA_FIELD_PREFIX}${variable}`}
+          title={variable}
+          placeholder={notebookSetup?.config.extra[variable] || `extra.${variable} (optional)`}
+        />
+      ))}
     </Form>
   );
 }
@@ -0,0 +1,149 @@
+import { useMemo } from "react";
+import { List, ActionPanel, Action, Icon, Color, showToast, Toast } from "@raycast/api";
+import { usePromise, useCachedState } from "@raycast/utils";
+import { openNote, ZK_NOTEBOOK_DIR, ZKNote } from "./lib/zk";
+import { listNotebooks } from "./lib/notebooks";
+import { BrokenLink, createMissingNote, findBrokenLinks, repointLink, suggestTargets } from "./lib/health";
+import { withSetupCheck } from "./components/setup-check";
+
+export default withSetupCheck(NotebookHealth);
+
+function NotebookHealth() {
+  const notebooks = useMemo(listNotebooks, []);
+  const [notebook, setNotebook] = useCachedState("notebook-health-notebook", ZK_NOTEBOOK_DIR);
+  const notebookDir = notebooks.some((item) => item.dir === notebook) ? notebook : notebooks[0].dir;
+
+  const { data, isLoading, revalidate } = usePromise(findBrokenLinks, [notebookDir], {
+    onError: async (error) => {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Error scanning notebook",
+        message: error.message,
+      });
+    },
+  });
+
+  const groups = data?.groups || [];
+  const brokenCount = groups.reduce((count, group) => count + group.links.length, 0);
+
+  return (
+    <List
+      isLoading={isLoading}
+      navigationTitle={data ? `Broken Links (${brokenCount})` : "Broken Links"}
+      searchBarPlaceholder="Filter broken links..."
+      searchBarAccessory={
+        notebooks.length > 1 ? (
+          <List.Dropdown tooltip="Notebook" value={notebookDir} onChange={setNotebook}>
+            {notebooks.map((item) => (
+              <List.Dropdown.Item key={item.dir} title={item.name} value={item.dir} icon={Icon.Book} />
+            ))}
+          </List.Dropdown>
+        ) : undefined
+      }
+    >
+      {data && groups.length === 0 ? (
+        <List.EmptyView
+          icon={{ source: Icon.CheckCircle, tintColor: Color.Green }}
+          title="No broken links"
+          description={`Every link of the ${data.notes.length} notes points to an existing note`}
+        />
+      ) : (
+        groups.map((group) => (
+          <List.Section
+            key={group.source.id}
+            title={group.source.title}
+            subtitle={`${group.source.path} · ${group.links.length} broken`}
+          >
+            {group.links.map((link) => (
+              <BrokenLinkItem
+                key={`${link.line}:${link.column}`}
+                link={link}
+                notes={data?.notes || []}
+                onChange={revalidate}
+              />
+            ))}
+          </List.Section>
+        ))
+      )}
+    </List>
+  );
+}
+
+function BrokenLinkItem({ link, notes, onChange }: { link: BrokenLink; notes: ZKNote[]; onChange: () => void }) {
+  const suggestions = useMemo(() => suggestTargets(link, notes), [link, notes]);
+
+  /** Fix the link, then scan again */
+  const fix = async (progress: string, success: string, action: () => Promise<unknown>) => {
+    const toast = await showToast({ style: Toast.Style.Animated, title: progress });
+    try {
+      await action();
+      toast.style = Toast.Style.Success;
+      toast.title = success;
+      onChange();
+    } catch (error: any) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Could not fix link";
+      toast.message = error.message;
+    }
+  };
+
+  const openSource = async () => {
+    try {
+      await openNote(link.source.absPath, link.line);
+    } catch (error: any) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Error opening note",
+        message: error.message,
+      });
+    }
+  };
+
+  return (
+    <List.Item
+      icon={{ source: Icon.Link, tintColor: Color.Red }}
+      title={link.text}
+      subtitle={`line ${link.line}`}
+      keywords={[link.target, link.source.title, link.source.path]}
+      accessories={[
+        suggestions.length > 0
+          ? { text: `→ ${suggestions[0].title}`, tooltip: "Closest existing note" }
+          : { text: "no similar note", tooltip: "No existing note looks like the target" },
+      ]}
+      actions={
+        <ActionPanel>
+          <Action icon={Icon.ArrowRight} title="Open Source at Line" onAction={openSource} />
+          {suggestions.length > 0 && (
+            <ActionPanel.Submenu icon={Icon.Switch} title="Re-Point Link To…" shortcut={{ modifiers: ["cmd"], key: "p" }}>
+              {suggestions.map((note) => (
+                <Action
+                  key={note.id}
+                  icon={Icon.Document}
+                  title={note.title}
+                  onAction={() => fix("Updating link...", `Link points to ${note.title}`, () => repointLink(link, note))}
+                />
+              ))}
+            </ActionPanel.Submenu>
+          )}
+          <Action
+            icon={Icon.NewDocument}
+            title="Create Missing Note"
+            onAction={() => fix("Creating note...", "Note created", () => createMissingNote(link))}
+            shortcut={{ modifiers: ["cmd"], key: "n" }}
+          />
+          <Action.CopyToClipboard
+            title="Copy Link Text"
+            content={link.text}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
+          />
+          <Action
+            icon={Icon.ArrowClockwise}
+            title="Scan Again"
+            onAction={onChange}
+            shortcut={{ modifiers: ["cmd"], key: "r" }}
+          />
+        </ActionPanel>
+      }
+    />
+  );
+}
@@ -0,0 +1,19 @@
+import { showHUD } from "@raycast/api";
+import { relative } from "path";
+import { openNote, ZK_NOTEBOOK_DIR } from "./lib/zk";
+import { ensureJournalNote } from "./lib/journal";
+import { assertSetup, handleSetupError } from "./lib/setup";
+
+export default async function OpenDailyNote() {
+  try {
+    assertSetup();
+    const { path, created } = await ensureJournalNote(new Date());
+    await openNote(path);
+    await showHUD(`${created ? "Created" : "Opened"} ${relative(ZK_NOTEBOOK_DIR, path)}`);
+  } catch (error: any) {
+    if (await handleSetupError(error)) {
+      return;
+    }
+    await showHUD(`Could not open today's note: ${error.message}`);
+  }
+}
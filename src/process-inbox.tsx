@@ -0,0 +1,262 @@
+import { ReactNode, useMemo, useState } from "react";
+import { Form, ActionPanel, Action, Icon, showToast, Toast } from "@raycast/api";
+import { usePromise, useCachedState } from "@raycast/utils";
+import { relative } from "path";
+import { getNoteContent, INBOX_DIR, ZK_NOTEBOOK_DIR, zkFor, ZKNote } from "./lib/zk";
+import { listMoveDestinations, MoveDestination } from "./lib/config";
+import { listNotebooks } from "./lib/notebooks";
+import { countTags, normalizeTags } from "./lib/tags";
+import { applyRename, planMove } from "./lib/rename";
+import { setTags } from "./lib/archive";
+import { frontmatterList } from "./lib/frontmatter";
+import { useNoteIndex } from "./hooks/use-note-index";
+import { withSetupCheck } from "./components/setup-check";
+import { openNoteWithToast } from "./components/note-actions";
+import { NotePreview } from "./components/note-preview";
+import { DestinationItems } from "./components/move-note";
+import { undoRenameWithToast } from "./components/rename-note";
+import { archiveNoteWithToast, trashNoteWithToast } from "./components/remove-note";
+
+export default withSetupCheck(ProcessInbox);
+
+/**
+ * Inbox notes, oldest first
+ */
+async function listInbox(notebookDir: string): Promise<ZKNote[]> {
+  return zkFor(notebookDir).list({ paths: [INBOX_DIR], sort: ["created+"] });
+}
+
+function ProcessInbox() {
+  const notebooks = useMemo(listNotebooks, []);
+  const [notebook, setNotebook] = useCachedState("process-inbox-notebook", ZK_NOTEBOOK_DIR);
+  const notebookDir = notebooks.some((item) => item.dir === notebook) ? notebook : notebooks[0].dir;
+  // Skipped notes stay in the inbox until the command is opened again
+  const [skipped, setSkipped] = useState<string[]>([]);
+
+  const inbox = usePromise(listInbox, [notebookDir], {
+    onError: async (error) => {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Error listing inbox",
+        message: error.message,
+      });
+    },
+  });
+  const destinations = usePromise(listMoveDestinations, [notebookDir]);
+  const index = useNoteIndex([notebookDir]);
+
+  const remaining = (inbox.data || []).filter((note) => !skipped.includes(note.id));
+  const note = remaining[0];
+
+  const notebookDropdown =
+    notebooks.length > 1 ? (
+      <Form.Dropdown id="notebook" title="Notebook" value={notebookDir} onChange={setNotebook}>
+        {notebooks.map((item) => (
+          <Form.Dropdown.Item key={item.dir} value={item.dir} title={item.name} icon={Icon.Book} />
+        ))}
+      </Form.Dropdown>
+    ) : null;
+
+  if (!note) {
+    return (
+      <Form
+        isLoading={inbox.isLoading}
+        actions={
+          <ActionPanel>
+            {skipped.length > 0 && (
+              <Action icon={Icon.ArrowCounterClockwise} title="Go Through Skipped Notes" onAction={() => setSkipped([])} />
+            )}
+            <Action icon={Icon.ArrowClockwise} title="Check Again" onAction={inbox.revalidate} />
+          </ActionPanel>
+        }
+      >
+        {!inbox.isLoading && (
+          <Form.Description
+            title="Inbox"
+            text={skipped.length > 0 ? `Only skipped notes left (${skipped.length})` : `No notes left in ${INBOX_DIR}/`}
+          />
+        )}
+        {notebookDropdown}
+      </Form>
+    );
+  }
+
+  return (
+    <InboxNoteForm
+      // A fresh form for every note, so that fields start from its values
+      key={note.id}
+      note={note}
+      position={`${(inbox.data || []).length - remaining.length + 1} of ${(inbox.data || []).length}`}
+      destinations={destinations.data || []}
+      existingTags={countTags(index.notes || [])}
+      isLoading={inbox.isLoading || destinations.isLoading}
+      notebookDropdown={notebookDropdown}
+      onDone={inbox.revalidate}
+      onSkip={() => setSkipped((current) => [...current, note.id])}
+    />
+  );
+}
+
+interface InboxValues {
+  directory: string;
+  tags: string[];
+  newTags: string;
+}
+
+interface InboxNoteFormProps {
+  note: ZKNote;
+  position: string;
+  destinations: MoveDestination[];
+  existingTags: Array<{ name: string; noteCount: number }>;
+  isLoading: boolean;
+  notebookDropdown: ReactNode;
+  /** The note left the inbox */
+  onDone: () => void;
+  onSkip: () => void;
+}
+
+function InboxNoteForm({
+  note,
+  position,
+  destinations,
+  existingTags,
+  isLoading,
+  notebookDropdown,
+  onDone,
+  onSkip,
+}: InboxNoteFormProps) {
+  const [directory, setDirectory] = useState(INBOX_DIR);
+  const [tags, setTagValues] = useState<string[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+
+  // Only the frontmatter tags are edited, `note.tags` also has the inline #tags of the text
+  const content = usePromise(getNoteContent, [note.absPath], {
+    onData: (content) => setTagValues(frontmatterList(content, "tags")),
+  });
+  const savedTags = useMemo(
+    () => (content.data !== undefined ? frontmatterList(content.data, "tags") : undefined),
+    [content.data]
+  );
+
+  // The note's own tags are offered even when the index does not know them yet
+  const tagItems = useMemo(() => {
+    const known = new Set(existingTags.map((tag) => tag.name));
+    const own = savedTags || [];
+    return [...own.filter((tag) => !known.has(tag)).map((name) => ({ name, noteCount: 1 })), ...existingTags];
+  }, [savedTags, existingTags]);
+
+  /** Run an action on the note, then go on with the next one */
+  const run = async (progress: string, action: () => Promise<Partial<Toast.Options>>) => {
+    setIsWorking(true);
+    const toast = await showToast({ style: Toast.Style.Animated, title: progress });
+    try {
+      Object.assign(toast, { style: Toast.Style.Success, ...(await action()) });
+      onDone();
+    } catch (error: any) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Could not process note";
+      toast.message = error.message;
+      setIsWorking(false);
+    }
+  };
+
+  const handleMove = async (values: InboxValues) => {
+    if (!savedTags) {
+      return;
+    }
+    const newTags = normalizeTags([...values.tags, values.newTags || ""]);
+    const tagsChanged = newTags.join("\n") !== normalizeTags(savedTags).join("\n");
+
+    if (values.directory === INBOX_DIR && !tagsChanged) {
+      onSkip();
+      return;
+    }
+
+    await run("Moving note...", async () => {
+      const plan = await planMove(note, values.directory, tagsChanged ? (content) => setTags(content, newTags) : undefined);
+      await applyRename(plan);
+      return {
+        title: values.directory === INBOX_DIR ? "Tags updated" : "Note moved",
+        message: relative(note.notebookDir, plan.newPath),
+        primaryAction: {
+          title: "Undo",
+          shortcut: { modifiers: ["cmd"], key: "z" },
+          onAction: () => undoRenameWithToast(onDone),
+        },
+      };
+    });
+  };
+
+  /** Archive or trash the note, then go on with the next one */
+  const remove = async (action: (note: ZKNote, onDone: () => void) => Promise<boolean>) => {
+    setIsWorking(true);
+    if (await action(note, onDone)) {
+      return;
+    }
+    setIsWorking(false);
+  };
+
+  return (
+    <Form
+      navigationTitle={`Process Inbox (${position})`}
+      isLoading={isLoading || content.isLoading || isWorking}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm icon={Icon.ArrowRight} title="Move and Next" onSubmit={handleMove} />
+          <Action
+            icon={Icon.Forward}
+            title="Skip"
+            onAction={onSkip}
+            shortcut={{ modifiers: ["cmd"], key: "s" }}
+          />
+          <Action
+            icon={Icon.Box}
+            title="Archive"
+            onAction={() => remove(archiveNoteWithToast)}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "a" }}
+          />
+          <Action
+            icon={Icon.Trash}
+            title="Move to Trash"
+            style={Action.Style.Destructive}
+            onAction={() => remove(trashNoteWithToast)}
+            shortcut={{ modifiers: ["ctrl"], key: "x" }}
+          />
+          <ActionPanel.Section>
+            <Action
+              icon={Icon.Pencil}
+              title="Open in Editor"
+              onAction={() => openNoteWithToast(note)}
+              shortcut={{ modifiers: ["cmd"], key: "return" }}
+            />
+            <Action.Push
+              icon={Icon.Maximize}
+              title="Preview Note"
+              target={<NotePreview note={note} />}
+              shortcut={{ modifiers: ["cmd"], key: "y" }}
+            />
+          </ActionPanel.Section>
+        </ActionPanel>
+      }
+    >
+      <Form.Description title={position} text={`${note.title}\n${note.path}`} />
+      {note.lead && <Form.Description title="Lead" text={note.lead} />}
+      <Form.Separator />
+      <Form.Dropdown id="directory" title="Move To" value={directory} onChange={setDirectory} autoFocus>
+        <DestinationItems destinations={destinations.length > 0 ? destinations : [{ path: INBOX_DIR }]} />
+      </Form.Dropdown>
+      <Form.TagPicker id="tags" title="Tags" value={tags} onChange={setTagValues}>
+        {tagItems.map((tag) => (
+          <Form.TagPicker.Item key={tag.name} value={tag.name} title={`${tag.name} (${tag.noteCount})`} icon={Icon.Tag} />
+        ))}
+      </Form.TagPicker>
+      <Form.TextField
+        id="newTags"
+        title="New Tags"
+        placeholder="tag1, tag2 (optional)"
+        info="Tags are written to the frontmatter; inline #tags stay in the text"
+      />
+      {notebookDropdown}
+    </Form>
+  );
+}
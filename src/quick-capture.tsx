@@ -0,0 +1,37 @@
+import { LaunchProps, getPreferenceValues, showHUD } from "@raycast/api";
+import { relative } from "path";
+import { createNote, openNote, ZK_NOTEBOOK_DIR } from "./lib/zk";
+import { assertSetup, handleSetupError } from "./lib/setup";
+
+/**
+ * Title used when none is given, e.g. "Capture 2024-05-01 14:30:05"
+ */
+function timestampTitle(date: Date = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  return `Capture ${day} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+export default async function QuickCapture(props: LaunchProps<{ arguments: Arguments.QuickCapture }>) {
+  const { openEditor } = getPreferenceValues<Preferences.QuickCapture>();
+  const title = props.arguments.title?.trim() || timestampTitle();
+
+  try {
+    assertSetup();
+    const result = await createNote({
+      title,
+      body: props.arguments.text,
+    });
+
+    if (openEditor) {
+      await openNote(result.path);
+    }
+
+    await showHUD(`Captured ${relative(ZK_NOTEBOOK_DIR, result.path)}`);
+  } catch (error: any) {
+    if (await handleSetupError(error)) {
+      return;
+    }
+    await showHUD(`Capture failed: ${error.message}`);
+  }
+}
@@ -0,0 +1,83 @@
+import { useMemo } from "react";
+import { List, ActionPanel, Action, Icon, showToast, Toast } from "@raycast/api";
+import { usePromise, useCachedState } from "@raycast/utils";
+import { openNote, ZK_NOTEBOOK_DIR } from "./lib/zk";
+import { listNotebooks } from "./lib/notebooks";
+import { listTrash, restoreNote, TrashEntry } from "./lib/archive";
+import { withSetupCheck } from "./components/setup-check";
+
+export default withSetupCheck(RestoreDeleted);
+
+function RestoreDeleted() {
+  const notebooks = useMemo(listNotebooks, []);
+  const [notebook, setNotebook] = useCachedState("restore-deleted-notebook", ZK_NOTEBOOK_DIR);
+  const notebookDir = notebooks.some((item) => item.dir === notebook) ? notebook : notebooks[0].dir;
+
+  const { data, isLoading, revalidate } = usePromise(listTrash, [notebookDir]);
+
+  const restore = async (entry: TrashEntry, open: boolean) => {
+    try {
+      const path = await restoreNote(notebookDir, entry);
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Note restored",
+        message: entry.originalPath,
+      });
+      revalidate();
+      if (open) {
+        await openNote(path);
+      }
+    } catch (error: any) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Could not restore note",
+        message: error.message,
+      });
+    }
+  };
+
+  return (
+    <List
+      isLoading={isLoading}
+      searchBarPlaceholder="Filter deleted notes..."
+      searchBarAccessory={
+        notebooks.length > 1 ? (
+          <List.Dropdown tooltip="Notebook" value={notebookDir} onChange={setNotebook}>
+            {notebooks.map((item) => (
+              <List.Dropdown.Item key={item.dir} title={item.name} value={item.dir} icon={Icon.Book} />
+            ))}
+          </List.Dropdown>
+        ) : undefined
+      }
+    >
+      <List.EmptyView icon={Icon.Trash} title="Trash is empty" description="Notes moved to trash show up here" />
+      {(data || []).map((entry) => (
+        <List.Item
+          key={entry.trashPath}
+          icon={Icon.Document}
+          title={entry.title}
+          subtitle={entry.originalPath}
+          keywords={[entry.originalPath]}
+          accessories={[{ date: new Date(entry.deletedAt), tooltip: "Deleted" }]}
+          actions={
+            <ActionPanel>
+              <Action icon={Icon.ArrowCounterClockwise} title="Restore Note" onAction={() => restore(entry, false)} />
+              <Action
+                icon={Icon.ArrowRight}
+                title="Restore and Open"
+                onAction={() => restore(entry, true)}
+                shortcut={{ modifiers: ["cmd"], key: "return" }}
+              />
+              <Action
+                icon={Icon.ArrowClockwise}
+                title="Reload"
+                onAction={revalidate}
+                shortcut={{ modifiers: ["cmd"], key: "r" }}
+              />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
@@ -1,22 +1,101 @@
-import { useState, useEffect } from "react";
-import { List, ActionPanel, Action, Icon, showToast, Toast, Detail } from "@raycast/api";
-import { searchNotes, listNotes, openNote, getNoteContent, ZKNote } from "./lib/zk";
-import { usePromise } from "@raycast/utils";
-
-export default function SearchNotes() {
-  const [searchText, setSearchText] = useState("");
-  const [selectedNote, setSelectedNote] = useState<ZKNote | null>(null);
-
-  const { data: notes, isLoading, revalidate } = usePromise(
-    async (query: string) => {
-      if (query.trim()) {
-        return await searchNotes(query);
-      } else {
-        return await listNotes();
+import { useEffect, useState, useMemo } from "react";
+import { List, Icon, Color, showToast, Toast, Action, ActionPanel, LaunchProps } from "@raycast/api";
+import { searchNotes, ZK_NOTEBOOK_DIR, ZKNote } from "./lib/zk";
+import { parseQuery, ParsedQuery } from "./lib/query";
+import { MatchStrategy } from "./lib/client";
+import { noteSnippets, sortByRelevance } from "./lib/snippets";
+import { loadSavedSearches, SearchLaunchContext } from "./lib/saved-searches";
+import { loadPins, setPinned } from "./lib/pins";
+import { loadVisits, RANK_BY_FRECENCY, rankNotes, recentlyOpened } from "./lib/frecency";
+import { canFilterInMemory, filterNotes, sortNotes } from "./lib/note-index";
+import { ALL_NOTEBOOKS, listNotebooks, selectedNotebookDirs } from "./lib/notebooks";
+import { useNoteIndex } from "./hooks/use-note-index";
+import { useLinkCounts } from "./hooks/use-link-counts";
+import { useNoteContent } from "./hooks/use-note-content";
+import { NoteListItem } from "./components/note-list-item";
+import { usePromise, useCachedState } from "@raycast/utils";
+import { withSetupCheck } from "./components/setup-check";
+import { SavedSearchItem, SaveSearchForm } from "./components/saved-searches";
+
+export default withSetupCheck(SearchNotes);
+
+const MATCH_STRATEGIES: Array<{ strategy: MatchStrategy; title: string; icon: Icon }> = [
+  { strategy: "fts", title: "Full Text", icon: Icon.MagnifyingGlass },
+  { strategy: "exact", title: "Exact Text", icon: Icon.QuoteBlock },
+  { strategy: "re", title: "Regular Expression", icon: Icon.Code },
+];
+
+/** The search bar dropdown picks a notebook and a match strategy at once */
+function accessoryValue(notebook: string, strategy: MatchStrategy): string {
+  return JSON.stringify([notebook, strategy]);
+}
+
+function SearchNotes({ launchContext }: LaunchProps<{ launchContext?: SearchLaunchContext }>) {
+  const [searchText, setSearchText] = useState(launchContext?.query || "");
+  const { query, errors } = useMemo(() => parseQuery(searchText), [searchText]);
+  const hasErrors = errors.length > 0;
+  const [isShowingDetail, setIsShowingDetail] = useCachedState("search-show-detail", false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const notebooks = useMemo(listNotebooks, []);
+  const [notebook, setNotebook] = useCachedState("search-notebook", ZK_NOTEBOOK_DIR);
+  // Ignore a remembered notebook that has been removed from the preferences
+  const selectedNotebook =
+    notebook === ALL_NOTEBOOKS || notebooks.some((item) => item.dir === notebook) ? notebook : notebooks[0].dir;
+  const notebookDirs = useMemo(() => selectedNotebookDirs(selectedNotebook), [selectedNotebook]);
+  const isAllNotebooks = notebookDirs.length > 1;
+  const notebookNames = useMemo(() => new Map(notebooks.map((item) => [item.dir, item.name])), [notebooks]);
+  const [cachedStrategy, setStrategy] = useCachedState<MatchStrategy>("search-match-strategy", "fts");
+  const strategy = MATCH_STRATEGIES.some((item) => item.strategy === cachedStrategy) ? cachedStrategy : "fts";
+
+  /** Run a saved search, in its notebook and with its match strategy when it has them */
+  const runSearch = (search: SearchLaunchContext) => {
+    setSearchText(search.query || "");
+    if (search.notebook) {
+      setNotebook(search.notebook);
+    }
+    if (search.strategy) {
+      setStrategy(search.strategy);
+    }
+  };
+
+  // Saved searches launched from a deeplink or quicklink
+  useEffect(() => {
+    if (launchContext) {
+      runSearch(launchContext);
+    }
+  }, []);
+
+  const { data: savedSearches, revalidate: reloadSavedSearches } = usePromise(loadSavedSearches);
+  const { data: pins, revalidate: reloadPins } = usePromise(loadPins);
+
+  const index = useNoteIndex(notebookDirs);
+
+  // Tag filters run against the cached index; free text, dates and links need a live zk call
+  const useIndex = canFilterInMemory(query) && !index.error;
+  const indexedNotes = useMemo(
+    () => (useIndex && index.notes ? filterNotes(index.notes, query) : undefined),
+    [useIndex, index.notes, query]
+  );
+  // Ranking blends frecency with relevance, as zk orders its full-text matches
+  const byRelevance = RANK_BY_FRECENCY && !!query.text && !query.sortByModified;
+
+  const { data: liveNotes, isLoading: isLoadingLive } = usePromise(
+    async (parsed: ParsedQuery, dirs: string[], match: MatchStrategy) => {
+      // An empty query lists every note
+      const results = await Promise.all(dirs.map((dir) => searchNotes(parsed, dir, match)));
+      if (results.length === 1) {
+        return results[0];
+      }
+      if (byRelevance) {
+        return sortByRelevance(results.flat(), parsed.text, match);
       }
+      return sortNotes(results.flat(), parsed.sortByModified ? "modified" : undefined);
     },
-    [searchText],
+    [query, notebookDirs, strategy],
     {
+      // Invalid queries are reported inline instead of being searched
+      execute: !hasErrors && !useIndex,
       onError: async (error) => {
         await showToast({
           style: Toast.Style.Failure,
@@ -27,126 +106,184 @@ export default function SearchNotes() {
     }
   );
 
-  const handleOpenNote = async (note: ZKNote) => {
+  const { data: visits } = usePromise(loadVisits, [], { execute: RANK_BY_FRECENCY });
+  const results = useIndex ? indexedNotes : liveNotes;
+  // `@recent` asks for modification order, which ranking would undo
+  const notes = useMemo(
+    () => (results && visits && !query.sortByModified ? rankNotes(results, visits) : results),
+    [results, visits, query.sortByModified]
+  );
+  const isLoading = useIndex ? index.isLoading : isLoadingLive;
+  const links = useLinkCounts(notes, selectedId, isShowingDetail);
+  const contents = useNoteContent(notes, selectedId, isShowingDetail);
+
+  // Where each result matched the free text, to show why it was found
+  const matches = useMemo(
+    () => new Map(query.text ? (notes || []).map((note) => [note.id, noteSnippets(note, query.text, strategy)]) : []),
+    [notes, query.text, strategy]
+  );
+
+  const togglePin = async (note: ZKNote) => {
+    const pinned = pins?.includes(note.id);
     try {
-      await showToast({
-        style: Toast.Style.Animated,
-        title: "Opening note...",
-      });
-      await openNote(note.path);
+      await setPinned(note.id, !pinned);
       await showToast({
         style: Toast.Style.Success,
-        title: "Note opened",
+        title: pinned ? "Note unpinned" : "Note pinned",
+        message: note.title,
       });
+      reloadPins();
     } catch (error: any) {
       await showToast({
         style: Toast.Style.Failure,
-        title: "Error opening note",
+        title: "Could not update pinned notes",
         message: error.message,
       });
     }
   };
 
-  const handleShowPreview = async (note: ZKNote) => {
-    setSelectedNote(note);
+  // Pinned notes and saved searches come first when nothing is searched yet
+  const isEmptySearch = !searchText.trim();
+  const pinnedIds = new Set(isEmptySearch ? pins || [] : []);
+  const pinnedNotes = Array.from(pinnedIds)
+    .map((id) => notes?.find((note) => note.id === id))
+    .filter((note): note is ZKNote => !!note);
+  const recentNotes =
+    isEmptySearch && visits ? recentlyOpened((notes || []).filter((note) => !pinnedIds.has(note.id)), visits) : [];
+  const shownIds = new Set([...pinnedNotes, ...recentNotes].map((note) => note.id));
+  const otherNotes = shownIds.size > 0 ? notes?.filter((note) => !shownIds.has(note.id)) : notes;
+  const shownSearches = isEmptySearch ? savedSearches || [] : [];
+
+  // Offered with the results, and also while they load or when there are none
+  const saveSearchAction = isEmptySearch ? undefined : (
+    <Action.Push
+      icon={Icon.SaveDocument}
+      title="Save Search…"
+      target={
+        <SaveSearchForm
+          search={{ query: searchText.trim(), notebook: selectedNotebook, strategy }}
+          onSaved={reloadSavedSearches}
+        />
+      }
+      shortcut={{ modifiers: ["cmd"], key: "s" }}
+    />
+  );
+  const listActions = saveSearchAction && <ActionPanel>{saveSearchAction}</ActionPanel>;
+
+  const renderNote = (note: ZKNote) => {
+    const isPinned = pins?.includes(note.id);
+    return (
+      <NoteListItem
+        key={note.id}
+        note={note}
+        isShowingDetail={isShowingDetail}
+        onToggleDetail={() => setIsShowingDetail(!isShowingDetail)}
+        onReload={index.revalidate}
+        linkCounts={links.countsFor(note)}
+        isLoadingLinks={links.isLoading}
+        notebookName={isAllNotebooks ? notebookNames.get(note.notebookDir) : undefined}
+        matches={matches.get(note.id)}
+        content={contents.contentFor(note)}
+        listActions={
+          <>
+            <Action
+              icon={isPinned ? Icon.PinDisabled : Icon.Pin}
+              title={isPinned ? "Unpin Note" : "Pin Note"}
+              onAction={() => togglePin(note)}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "p" }}
+            />
+            {saveSearchAction}
+          </>
+        }
+      />
+    );
   };
 
-  if (selectedNote) {
-    return <NotePreview note={selectedNote} onBack={() => setSelectedNote(null)} />;
-  }
+  const handleAccessoryChange = (value: string) => {
+    const [newNotebook, newStrategy] = JSON.parse(value) as [string, MatchStrategy];
+    setNotebook(newNotebook);
+    setStrategy(newStrategy);
+  };
 
   return (
     <List
-      isLoading={isLoading}
-      searchBarPlaceholder="Search, #tag, @today, >links, <backlinks, !orphan..."
+      isLoading={isLoading && !hasErrors}
+      searchBarPlaceholder="Search, #tag, -#tag, @today, >links, <backlinks, !orphan..."
+      searchText={searchText}
       onSearchTextChange={setSearchText}
+      onSelectionChange={setSelectedId}
+      isShowingDetail={isShowingDetail && !hasErrors && !!notes?.length}
       throttle
       filtering={false}
+      actions={listActions}
+      searchBarAccessory={
+        <List.Dropdown
+          tooltip={notebooks.length > 1 ? "Notebook and Match Strategy" : "Match Strategy"}
+          value={accessoryValue(selectedNotebook, strategy)}
+          onChange={handleAccessoryChange}
+        >
+          {notebooks.length > 1 ? (
+            [...notebooks, { dir: ALL_NOTEBOOKS, name: "All Notebooks" }].map((item) => (
+              <List.Dropdown.Section key={item.dir} title={item.name}>
+                {MATCH_STRATEGIES.map(({ strategy: value, title, icon }) => (
+                  <List.Dropdown.Item
+                    key={value}
+                    title={`${item.name} · ${title}`}
+                    value={accessoryValue(item.dir, value)}
+                    icon={icon}
+                  />
+                ))}
+              </List.Dropdown.Section>
+            ))
+          ) : (
+            MATCH_STRATEGIES.map(({ strategy: value, title, icon }) => (
+              <List.Dropdown.Item
+                key={value}
+                title={title}
+                value={accessoryValue(selectedNotebook, value)}
+                icon={icon}
+              />
+            ))
+          )}
+        </List.Dropdown>
+      }
     >
-      {notes && notes.length === 0 && !isLoading ? (
+      {hasErrors ? (
+        <List.Section title="Invalid query">
+          {errors.map((error, index) => (
+            <List.Item
+              key={`${index}-${error.token}`}
+              icon={{ source: Icon.ExclamationMark, tintColor: Color.Red }}
+              title={error.message}
+              subtitle={error.token}
+            />
+          ))}
+        </List.Section>
+      ) : notes && notes.length === 0 && !isLoading ? (
         <List.EmptyView
           icon={Icon.MagnifyingGlass}
           title="No notes found"
           description={searchText ? `No notes match "${searchText}"` : "Start typing to search"}
+          actions={listActions}
         />
       ) : (
-        notes?.map((note) => (
-          <List.Item
-            key={note.id}
-            icon={Icon.Document}
-            title={note.title}
-            subtitle={note.path}
-            accessories={[
-              {
-                icon: Icon.ArrowRight,
-                tooltip: "Press Enter to open",
-              },
-            ]}
-            actions={
-              <ActionPanel>
-                <Action
-                  icon={Icon.Eye}
-                  title="Preview Note"
-                  onAction={() => handleShowPreview(note)}
-                />
-                <Action
-                  icon={Icon.ArrowRight}
-                  title="Open in Editor"
-                  onAction={() => handleOpenNote(note)}
-                  shortcut={{ modifiers: ["cmd"], key: "return" }}
-                />
-                <Action.CopyToClipboard
-                  icon={Icon.Clipboard}
-                  title="Copy Path"
-                  content={note.path}
-                  shortcut={{ modifiers: ["cmd"], key: "c" }}
-                />
-                <Action.CopyToClipboard
-                  icon={Icon.Clipboard}
-                  title="Copy Title"
-                  content={note.title}
-                  shortcut={{ modifiers: ["cmd", "shift"], key: "c" }}
-                />
-              </ActionPanel>
-            }
-          />
-        ))
+        <>
+          {pinnedNotes.length > 0 && <List.Section title="Pinned">{pinnedNotes.map(renderNote)}</List.Section>}
+          {recentNotes.length > 0 && (
+            <List.Section title="Recently Opened">{recentNotes.map(renderNote)}</List.Section>
+          )}
+          {shownSearches.length > 0 && (
+            <List.Section title="Saved Searches">
+              {shownSearches.map((search) => (
+                <SavedSearchItem key={search.name} search={search} onRun={runSearch} onChange={reloadSavedSearches} />
+              ))}
+            </List.Section>
+          )}
+          <List.Section title={shownIds.size > 0 || shownSearches.length > 0 ? "Notes" : undefined}>
+            {otherNotes?.map(renderNote)}
+          </List.Section>
+        </>
       )}
     </List>
   );
 }
-
-function NotePreview({ note, onBack }: { note: ZKNote; onBack: () => void }) {
-  const { data: content, isLoading } = usePromise(() => getNoteContent(note.path), []);
-
-  return (
-    <Detail
-      isLoading={isLoading}
-      markdown={content || "Loading..."}
-      navigationTitle={note.title}
-      actions={
-        <ActionPanel>
-          <Action
-            icon={Icon.ArrowRight}
-            title="Open Note"
-            onAction={async () => {
-              await openNote(note.path);
-              onBack();
-            }}
-          />
-          <Action
-            icon={Icon.ArrowLeft}
-            title="Back to Search"
-            onAction={onBack}
-            shortcut={{ modifiers: ["cmd"], key: "b" }}
-          />
-          <Action.CopyToClipboard
-            icon={Icon.Clipboard}
-            title="Copy Path"
-            content={note.path}
-          />
-        </ActionPanel>
-      }
-    />
-  );
-}